@@ -0,0 +1,182 @@
+// Positions for inline comments, checked against the diff before GitLab
+// gets a chance to reject them with a 400.
+import { Either, fold, left, right } from "fp-ts/lib/Either";
+import { isNone, Option } from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import { sequenceT } from "fp-ts/lib/Apply";
+import { chain, map, readerTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import {
+  FileDiff,
+  findFile,
+  findNewLine,
+  findOldLine,
+  DiffLine,
+  parseChanges,
+} from "./Diff";
+import {
+  GitLabDiscussionTextPosition,
+  GitLabMR,
+  GitLabNote,
+} from "./GitLabDSL";
+import {
+  createMergeRequestDiscussion,
+  createMergeRequestNote,
+  getMergeRequestChanges,
+  getMergeRequestInfo,
+  GitLabOp,
+} from "./GitLabClient";
+
+/** Which version of the file a line number refers to */
+export type Side = "new" | "old";
+
+export interface FileNotInDiff {
+  readonly _tag: "FileNotInDiff";
+  readonly path: string;
+}
+
+export interface LineNotInDiff {
+  readonly _tag: "LineNotInDiff";
+  readonly path: string;
+  readonly line: number;
+  readonly side: Side;
+}
+
+export type PositionError = FileNotInDiff | LineNotInDiff;
+
+export const positionErrorMessage = (e: PositionError): string =>
+  e._tag === "FileNotInDiff"
+    ? `${e.path} is not part of the diff`
+    : `${e.side} line ${e.line} of ${e.path} is not part of the diff`;
+
+/**
+ * Position of a line of the diff. The path may be the old or the new path of
+ * a renamed file.
+ * @param mr Provides the SHAs of the diff
+ * @param files The parsed changes of the merge request
+ */
+export const positionFor = (
+  mr: Pick<GitLabMR, "diff_refs">,
+  files: FileDiff[]
+) => (
+  path: string,
+  line: number,
+  side: Side = "new"
+): Either<PositionError, GitLabDiscussionTextPosition> => {
+  const file = findFile(files, path);
+  if (isNone(file)) {
+    return left({ _tag: "FileNotInDiff", path });
+  }
+  const { oldPath, newPath } = file.value;
+  const diffLine: Option<DiffLine> =
+    side === "new"
+      ? findNewLine(file.value, line)
+      : findOldLine(file.value, line);
+  if (isNone(diffLine)) {
+    return left({ _tag: "LineNotInDiff", path, line, side });
+  }
+  return right({
+    position_type: "text",
+    base_sha: mr.diff_refs.base_sha,
+    start_sha: mr.diff_refs.start_sha,
+    head_sha: mr.diff_refs.head_sha,
+    old_path: oldPath,
+    new_path: newPath,
+    // Context lines need both numbers
+    old_line: diffLine.value.oldLine,
+    new_line: diffLine.value.newLine,
+  });
+};
+
+/** Where a comment ends up once the fallbacks are applied */
+export type CommentTarget =
+  | { readonly _tag: "Line"; readonly position: GitLabDiscussionTextPosition }
+  | { readonly _tag: "File"; readonly path: string; readonly line: number }
+  | { readonly _tag: "General" };
+
+/**
+ * Comment on the line if possible, else on the file if it changed, else on
+ * the merge request.
+ */
+export const targetFor = (
+  mr: Pick<GitLabMR, "diff_refs">,
+  files: FileDiff[]
+) => (path: string, line: number, side: Side = "new"): CommentTarget =>
+  pipe(
+    positionFor(mr, files)(path, line, side),
+    fold<PositionError, GitLabDiscussionTextPosition, CommentTarget>(
+      e =>
+        e._tag === "LineNotInDiff"
+          ? { _tag: "File", path, line }
+          : { _tag: "General" },
+      position => ({ _tag: "Line", position })
+    )
+  );
+
+/** The merge request with its parsed changes */
+export const getMergeRequestDiff = sequenceT(readerTaskEither)(
+  getMergeRequestInfo,
+  pipe(
+    getMergeRequestChanges,
+    map(parseChanges)
+  )
+);
+
+/**
+ * Position of a line of the merge request's diff.
+ */
+export const getCommentPosition = (
+  path: string,
+  line: number,
+  side: Side = "new"
+): GitLabOp<Either<PositionError, GitLabDiscussionTextPosition>> =>
+  pipe(
+    getMergeRequestDiff,
+    map(([mr, files]) => positionFor(mr, files)(path, line, side))
+  );
+
+export const getCommentTarget = (
+  path: string,
+  line: number,
+  side: Side = "new"
+): GitLabOp<CommentTarget> =>
+  pipe(
+    getMergeRequestDiff,
+    map(([mr, files]) => targetFor(mr, files)(path, line, side))
+  );
+
+/**
+ * Post a comment on its target. A file target becomes a general note naming
+ * the file and line, as text positions always need a line of the diff.
+ */
+export const createComment = (body: string) => (
+  target: CommentTarget
+): GitLabOp<GitLabNote> => {
+  switch (target._tag) {
+    case "Line":
+      return pipe(
+        createMergeRequestDiscussion(body, target.position),
+        map(discussion => discussion.notes[0])
+      );
+    case "File":
+      return createMergeRequestNote(
+        `\`${target.path}\` line ${target.line}:\n\n${body}`
+      );
+    case "General":
+      return createMergeRequestNote(body);
+  }
+};
+
+/**
+ * Comment on a line, falling back to the file or the merge request when the
+ * line isn't part of the diff.
+ */
+export const createInlineComment = (
+  path: string,
+  line: number,
+  body: string,
+  side: Side = "new"
+): GitLabOp<GitLabNote> =>
+  pipe(
+    getCommentTarget(path, line, side),
+    chain(createComment(body))
+  );
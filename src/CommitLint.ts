@@ -0,0 +1,270 @@
+// Commit message lint: checks of the commits of a merge request, usable as a
+// rule of Rules.ts.
+import { flatten } from "fp-ts/lib/Array";
+import { right as rightTE } from "fp-ts/lib/TaskEither";
+import { GitLabMRCommit } from "./GitLabDSL";
+import { Level, Rule, RuleResult } from "./Rules";
+
+export interface CommitLintConfig {
+  /** Allowed Conventional Commits types, any type is rejected when empty */
+  types: string[];
+  /** Allowed scopes, any scope is accepted when empty */
+  scopes: string[];
+  requireScope: boolean;
+  /** Whether titles must follow Conventional Commits at all */
+  conventional: boolean;
+  subjectMaxLength: number;
+  bodyMaxLineLength: number;
+  /** `fixup!` and `squash!` commits */
+  forbidAutosquash: boolean;
+  /** "WIP" and "Draft" commits */
+  forbidWIP: boolean;
+  /** Commits with more than one parent */
+  forbidMergeCommits: boolean;
+  /** Domains of author emails, subdomains included; any when empty */
+  allowedEmailDomains: string[];
+  /** Level of the rule's results */
+  level: Level;
+}
+
+export const defaultCommitLintConfig: CommitLintConfig = {
+  types: [
+    "build",
+    "chore",
+    "ci",
+    "docs",
+    "feat",
+    "fix",
+    "perf",
+    "refactor",
+    "revert",
+    "style",
+    "test",
+  ],
+  scopes: [],
+  requireScope: false,
+  conventional: true,
+  subjectMaxLength: 72,
+  bodyMaxLineLength: 100,
+  forbidAutosquash: true,
+  forbidWIP: true,
+  forbidMergeCommits: true,
+  allowedEmailDomains: [],
+  level: "fail",
+};
+
+export type CommitCheck =
+  | "type"
+  | "scope"
+  | "subject-length"
+  | "body-separator"
+  | "body-length"
+  | "autosquash"
+  | "wip"
+  | "merge"
+  | "email-domain";
+
+export interface CommitViolation {
+  check: CommitCheck;
+  message: string;
+}
+
+export interface CommitLintResult {
+  /** Short SHA, as shown by GitLab */
+  sha: string;
+  title: string;
+  violations: CommitViolation[];
+}
+
+const violation = (check: CommitCheck, message: string): CommitViolation => ({
+  check,
+  message,
+});
+
+const isMerge = (commit: GitLabMRCommit) => commit.parent_ids.length > 1;
+const isAutosquash = (title: string) => /^(fixup|squash)! /.test(title);
+const isWIP = (title: string) => /^(\[wip\]|wip\b|draft:)/i.test(title);
+
+// type(scope)!: subject
+const conventionalTitle = /^(\w+)(?:\(([^()]*)\))?!?: (\S.*)$/;
+
+const checkConventional = (config: CommitLintConfig) => (
+  title: string
+): CommitViolation[] => {
+  const match = conventionalTitle.exec(title);
+  if (match === null) {
+    return [
+      violation(
+        "type",
+        "Title doesn't follow Conventional Commits: `type(scope): subject`"
+      ),
+    ];
+  }
+  const [, type, scope] = match;
+  const violations: CommitViolation[] = [];
+  if (!config.types.includes(type)) {
+    violations.push(
+      violation(
+        "type",
+        `Unknown type \`${type}\`, use one of ${config.types.join(", ")}`
+      )
+    );
+  }
+  if (scope === undefined || scope === "") {
+    if (config.requireScope) {
+      violations.push(violation("scope", "Missing scope"));
+    }
+  } else if (config.scopes.length > 0 && !config.scopes.includes(scope)) {
+    violations.push(
+      violation(
+        "scope",
+        `Unknown scope \`${scope}\`, use one of ${config.scopes.join(", ")}`
+      )
+    );
+  }
+  return violations;
+};
+
+const checkSubject = (config: CommitLintConfig) => (
+  title: string
+): CommitViolation[] =>
+  title.length > config.subjectMaxLength
+    ? [
+        violation(
+          "subject-length",
+          `Title is ${title.length} characters long, the limit is ${config.subjectMaxLength}`
+        ),
+      ]
+    : [];
+
+// Links can't be wrapped
+const isUnbreakable = (line: string) => !/\s/.test(line.trim());
+
+const checkBody = (config: CommitLintConfig) => (
+  message: string
+): CommitViolation[] => {
+  const [, separator, ...body] = message.split("\n");
+  const violations: CommitViolation[] = [];
+  if (separator !== undefined && separator.trim() !== "") {
+    violations.push(
+      violation(
+        "body-separator",
+        "Separate the title from the body with a blank line"
+      )
+    );
+  }
+  const long = [separator || "", ...body].filter(
+    line => line.length > config.bodyMaxLineLength && !isUnbreakable(line)
+  );
+  if (long.length > 0) {
+    violations.push(
+      violation(
+        "body-length",
+        `${long.length} line(s) of the body are longer than ${config.bodyMaxLineLength} characters`
+      )
+    );
+  }
+  return violations;
+};
+
+const emailDomain = (email: string) =>
+  email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+
+const checkEmail = (config: CommitLintConfig) => (
+  email: string
+): CommitViolation[] => {
+  if (config.allowedEmailDomains.length === 0) {
+    return [];
+  }
+  const domain = emailDomain(email);
+  const allowed = config.allowedEmailDomains.some(allowedDomain => {
+    const expected = allowedDomain.toLowerCase();
+    return domain === expected || domain.endsWith(`.${expected}`);
+  });
+  return allowed
+    ? []
+    : [
+        violation(
+          "email-domain",
+          `Author email domain \`${domain}\` is not one of ${config.allowedEmailDomains.join(
+            ", "
+          )}`
+        ),
+      ];
+};
+
+/**
+ * Check a commit. Merge, `fixup!`, `squash!` and WIP commits are reported
+ * as such, their titles aren't expected to follow Conventional Commits.
+ */
+export const lintCommit = (options: Partial<CommitLintConfig> = {}) => (
+  commit: GitLabMRCommit
+): CommitLintResult => {
+  const config: CommitLintConfig = { ...defaultCommitLintConfig, ...options };
+  const { title } = commit;
+  const special: CommitViolation[] = [];
+  if (isMerge(commit)) {
+    if (config.forbidMergeCommits) {
+      special.push(violation("merge", "Merge commit, rebase instead"));
+    }
+  } else if (isAutosquash(title)) {
+    if (config.forbidAutosquash) {
+      special.push(
+        violation("autosquash", "Squash this commit before merging")
+      );
+    }
+  } else if (isWIP(title)) {
+    if (config.forbidWIP) {
+      special.push(violation("wip", "Work in progress commit"));
+    }
+  }
+  const skipsConvention =
+    isMerge(commit) || isAutosquash(title) || isWIP(title);
+  return {
+    sha: commit.short_id,
+    title,
+    violations: [
+      ...special,
+      ...(config.conventional && !skipsConvention
+        ? checkConventional(config)(title)
+        : []),
+      ...checkSubject(config)(title),
+      ...(isMerge(commit) ? [] : checkBody(config)(commit.message)),
+      ...checkEmail(config)(commit.author_email),
+    ],
+  };
+};
+
+/** Results of every commit, in the order of the commits */
+export const lintCommits = (options: Partial<CommitLintConfig> = {}) => (
+  commits: GitLabMRCommit[]
+): CommitLintResult[] => commits.map(lintCommit(options));
+
+/** One result per violation, each prefixed with the commit's short SHA */
+export const toRuleResults = (level: Level) => (
+  results: CommitLintResult[]
+): RuleResult[] =>
+  flatten(
+    results.map(result =>
+      result.violations.map(({ message }) => ({
+        level,
+        message: `\`${result.sha}\` ${message}`,
+      }))
+    )
+  );
+
+/**
+ * Lint the commits of the merge request, e.g.
+ * `rules: [commitLintRule({ allowedEmailDomains: ["gitlab.com"] })]`.
+ */
+export const commitLintRule = (
+  options: Partial<CommitLintConfig> = {}
+): Rule => ({
+  name: "commit-lint",
+  check: dsl =>
+    rightTE(
+      toRuleResults(options.level || defaultCommitLintConfig.level)(
+        lintCommits(options)(dsl.commits)
+      )
+    ),
+});
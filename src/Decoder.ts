@@ -0,0 +1,208 @@
+import { Either, isLeft, left, right } from "fp-ts/lib/Either";
+
+/**
+ * A failed check at a given path, e.g.
+ * `{ path: "pipeline.status", message: "expected string, got null" }`.
+ */
+export interface DecodeFailure {
+  path: string;
+  message: string;
+}
+
+/**
+ * Run-time check for an unknown value. On failure, returns every failing
+ * path instead of stopping at the first one.
+ */
+export type Decoder<A> = (
+  u: unknown,
+  path: string
+) => Either<DecodeFailure[], A>;
+
+export type TypeOf<D> = D extends Decoder<infer A> ? A : never;
+
+/**
+ * Error returned when a response does not match the expected shape.
+ */
+export class DecodeError extends Error {
+  constructor(
+    public readonly typeName: string,
+    public readonly failures: DecodeFailure[]
+  ) {
+    super(`Invalid ${typeName}:\n${formatFailures(failures).join("\n")}`);
+    this.name = "DecodeError";
+  }
+}
+
+export const formatFailures = (failures: DecodeFailure[]): string[] =>
+  failures.map(({ path, message }) =>
+    path === "" ? message : `${path}: ${message}`
+  );
+
+const describe = (u: unknown): string => {
+  if (u === null) {
+    return "null";
+  }
+  if (u === undefined) {
+    return "undefined";
+  }
+  if (Array.isArray(u)) {
+    return "array";
+  }
+  if (typeof u === "object") {
+    return "object";
+  }
+  const json = JSON.stringify(u);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+};
+
+const failure = <A>(
+  path: string,
+  expected: string,
+  u: unknown
+): Either<DecodeFailure[], A> =>
+  left([{ path, message: `expected ${expected}, got ${describe(u)}` }]);
+
+const join = (path: string, key: string | number): string =>
+  typeof key === "number"
+    ? `${path}[${key}]`
+    : path === ""
+    ? key
+    : `${path}.${key}`;
+
+const primitive = <A>(name: string, is: (u: unknown) => u is A): Decoder<A> => (
+  u,
+  path
+) => (is(u) ? right(u) : failure(path, name, u));
+
+export const string = primitive(
+  "string",
+  (u): u is string => typeof u === "string"
+);
+
+export const number = primitive(
+  "number",
+  (u): u is number => typeof u === "number" && !isNaN(u)
+);
+
+export const boolean = primitive(
+  "boolean",
+  (u): u is boolean => typeof u === "boolean"
+);
+
+export const nullType = primitive("null", (u): u is null => u === null);
+
+/** Any value, e.g. for a field checked later */
+export const unknown: Decoder<unknown> = u => right(u);
+
+/**
+ * One of the given literal values. Reports "expected string" for a value
+ * of the wrong type and the list of accepted values otherwise.
+ */
+export function literal<A extends string | number | boolean>(
+  ...values: A[]
+): Decoder<A> {
+  const types = values
+    .map(value => typeof value)
+    .filter((t, i, all) => all.indexOf(t) === i);
+  return (u, path) => {
+    if (values.indexOf(u as A) !== -1) {
+      return right(u as A);
+    }
+    return types.indexOf(typeof u) === -1
+      ? failure(path, types.join(" | "), u)
+      : failure(path, values.map(v => JSON.stringify(v)).join(" | "), u);
+  };
+}
+
+export function nullable<A>(decoder: Decoder<A>): Decoder<A | null> {
+  return (u, path) => (u === null ? right(null) : decoder(u, path));
+}
+
+/**
+ * For keys that GitLab omits from some responses.
+ */
+export function optional<A>(decoder: Decoder<A>): Decoder<A | undefined> {
+  return (u, path) => (u === undefined ? right(undefined) : decoder(u, path));
+}
+
+export function array<A>(decoder: Decoder<A>): Decoder<A[]> {
+  return (u, path) => {
+    if (!Array.isArray(u)) {
+      return failure(path, "array", u);
+    }
+    const failures: DecodeFailure[] = [];
+    const values: A[] = [];
+    u.forEach((item, i) => {
+      const result = decoder(item, join(path, i));
+      if (isLeft(result)) {
+        failures.push(...result.left);
+      } else {
+        values.push(result.right);
+      }
+    });
+    return failures.length > 0 ? left(failures) : right(values);
+  };
+}
+
+export type Props = { [key: string]: Decoder<any> };
+
+type TypeOfProps<P extends Props> = { [K in keyof P]: TypeOf<P[K]> };
+
+/**
+ * Object with the given keys. Unknown keys are kept as they are, so the
+ * decoded value is the original response object.
+ */
+export function type<P extends Props>(props: P): Decoder<TypeOfProps<P>> {
+  return (u, path) => {
+    if (typeof u !== "object" || u === null || Array.isArray(u)) {
+      return failure(path, "object", u);
+    }
+    const record = u as { [key: string]: unknown };
+    const failures: DecodeFailure[] = [];
+    Object.keys(props).forEach(key => {
+      const result = props[key](record[key], join(path, key));
+      if (isLeft(result)) {
+        failures.push(...result.left);
+      }
+    });
+    return failures.length > 0 ? left(failures) : right(u as TypeOfProps<P>);
+  };
+}
+
+/**
+ * Check both decoders, collecting the failures of both. A failure reported
+ * by both (e.g. "expected object") is only listed once.
+ */
+export function intersection<A, B>(
+  a: Decoder<A>,
+  b: Decoder<B>
+): Decoder<A & B> {
+  return (u, path) => {
+    const ra = a(u, path);
+    const rb = b(u, path);
+    if (isLeft(ra) || isLeft(rb)) {
+      const fa = isLeft(ra) ? ra.left : [];
+      const fb = isLeft(rb) ? rb.left : [];
+      return left([
+        ...fa,
+        ...fb.filter(
+          f => !fa.some(g => g.path === f.path && g.message === f.message)
+        ),
+      ]);
+    }
+    return right(u as A & B);
+  };
+}
+
+/**
+ * Run a decoder against a response, wrapping failures in a `DecodeError`.
+ * @param typeName Name used in the error message, e.g. "GitLabMR"
+ */
+export function decodeWith<A>(decoder: Decoder<A>, typeName: string) {
+  return (u: unknown): Either<DecodeError, A> => {
+    const result = decoder(u, "");
+    return isLeft(result)
+      ? left(new DecodeError(typeName, result.left))
+      : right(result.right);
+  };
+}
@@ -0,0 +1,199 @@
+// Parser for the unified diffs in `GitLabMRChange.diff`.
+// GitLab only sends the hunks, without the `diff --git`/`---`/`+++` headers.
+import { findFirst } from "fp-ts/lib/Array";
+import { alt, chain, getOrElse, isSome, map, Option } from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import { GitLabMRChange } from "./GitLabDSL";
+
+export type DiffLineKind = "added" | "removed" | "context";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  /** The line without its "+", "-" or " " prefix */
+  content: string;
+  /** Line number in the old file, null for added lines */
+  oldLine: number | null;
+  /** Line number in the new file, null for removed lines */
+  newLine: number | null;
+  /** Followed by "\ No newline at end of file" */
+  noNewlineAtEnd: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the second "@@", usually the enclosing function */
+  section: string;
+  lines: DiffLine[];
+}
+
+export type FileStatus = "added" | "deleted" | "renamed" | "modified";
+
+export interface FileDiff {
+  oldPath: string;
+  newPath: string;
+  status: FileStatus;
+  oldMode: string;
+  newMode: string;
+  /** Only the file mode changed, there are no hunks */
+  modeOnly: boolean;
+  /** GitLab doesn't send hunks for binary files */
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const binaryMarker = /^(Binary files .* differ|GIT binary patch)$/;
+
+const lineKinds: { [prefix: string]: DiffLineKind } = {
+  "+": "added",
+  "-": "removed",
+  " ": "context",
+};
+
+const count = (value: string | undefined): number =>
+  value === undefined ? 1 : parseInt(value, 10);
+
+/**
+ * Hunks of a unified diff. Lines outside of a hunk, e.g. headers, are
+ * skipped, and a truncated hunk ends at the last line received.
+ */
+export const parseHunks = (diff: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  diff.split("\n").forEach(text => {
+    const header = text.match(hunkHeader);
+    if (header) {
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: count(header[2]),
+        newStart: parseInt(header[3], 10),
+        newLines: count(header[4]),
+        section: header[5],
+        lines: [],
+      };
+      hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      return;
+    }
+    if (!hunk) {
+      return;
+    }
+    if (text.startsWith("\\")) {
+      // "\ No newline at end of file" refers to the line before
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) {
+        last.noNewlineAtEnd = true;
+      }
+      return;
+    }
+    if (oldRemaining <= 0 && newRemaining <= 0) {
+      return;
+    }
+    // Some tools strip the space of empty context lines
+    const kind = text === "" ? "context" : lineKinds[text[0]];
+    if (!kind) {
+      return;
+    }
+    hunk.lines.push({
+      kind,
+      content: text.slice(1),
+      oldLine: kind === "added" ? null : oldLine++,
+      newLine: kind === "removed" ? null : newLine++,
+      noNewlineAtEnd: false,
+    });
+    if (kind !== "added") {
+      oldRemaining--;
+    }
+    if (kind !== "removed") {
+      newRemaining--;
+    }
+  });
+  return hunks;
+};
+
+const fileStatus = (change: GitLabMRChange): FileStatus =>
+  change.new_file
+    ? "added"
+    : change.deleted_file
+    ? "deleted"
+    : change.renamed_file
+    ? "renamed"
+    : "modified";
+
+export const parseChange = (change: GitLabMRChange): FileDiff => {
+  const hunks = parseHunks(change.diff);
+  return {
+    oldPath: change.old_path,
+    newPath: change.new_path,
+    status: fileStatus(change),
+    oldMode: change.a_mode,
+    newMode: change.b_mode,
+    modeOnly: hunks.length === 0 && change.a_mode !== change.b_mode,
+    binary: change.diff.split("\n").some(line => binaryMarker.test(line)),
+    hunks,
+  };
+};
+
+export const parseChanges = (changes: GitLabMRChange[]): FileDiff[] =>
+  changes.map(parseChange);
+
+/** All lines of a file's hunks */
+export const diffLines = (file: FileDiff): DiffLine[] =>
+  file.hunks.reduce<DiffLine[]>((lines, hunk) => lines.concat(hunk.lines), []);
+
+export const linesOfKind = (kind: DiffLineKind) => (
+  file: FileDiff
+): DiffLine[] => diffLines(file).filter(line => line.kind === kind);
+
+export const addedLines = linesOfKind("added");
+export const removedLines = linesOfKind("removed");
+
+/**
+ * The diff of a file, by its new path or, for deleted and renamed files,
+ * its old path.
+ */
+export const findFile = (files: FileDiff[], path: string): Option<FileDiff> =>
+  pipe(
+    findFirst((file: FileDiff) => file.newPath === path)(files),
+    alt(() => findFirst((file: FileDiff) => file.oldPath === path)(files))
+  );
+
+/** The line with this number in the new file, if it is part of the diff */
+export const findNewLine = (file: FileDiff, line: number): Option<DiffLine> =>
+  findFirst((l: DiffLine) => l.newLine === line)(diffLines(file));
+
+/** The line with this number in the old file, if it is part of the diff */
+export const findOldLine = (file: FileDiff, line: number): Option<DiffLine> =>
+  findFirst((l: DiffLine) => l.oldLine === line)(diffLines(file));
+
+/** Added lines in the file at `path`, empty if it didn't change */
+export const addedLinesIn = (files: FileDiff[], path: string): DiffLine[] =>
+  pipe(
+    findFile(files, path),
+    map(addedLines),
+    getOrElse((): DiffLine[] => [])
+  );
+
+/** Whether line `line` of the new file at `path` is shown in the diff */
+export const isNewLineInDiff = (
+  files: FileDiff[],
+  path: string,
+  line: number
+): boolean =>
+  isSome(
+    pipe(
+      findFile(files, path),
+      chain(file => findNewLine(file, line))
+    )
+  );
@@ -0,0 +1,61 @@
+// Threads on the diff opened by the user of the API token, so that a tool can
+// resolve its own threads once the issue is fixed instead of deleting them.
+import { pipe } from "fp-ts/lib/pipeable";
+import { chain, map } from "fp-ts/lib/ReaderTaskEither";
+import { GitLabDiscussion } from "./GitLabDSL";
+import { getMergeRequestDiscussions, getUser, GitLabOp } from "./GitLabClient";
+
+/**
+ * Whether the thread starts on the file, and on the line if one is given. A
+ * line of the new version, or of the old one for a removed line.
+ */
+export const isOnLine = (path: string, line?: number) => (
+  discussion: GitLabDiscussion
+): boolean => {
+  const [first] = discussion.notes;
+  const position = first && first.position;
+  if (!position || position.new_path !== path) {
+    return false;
+  }
+  return (
+    line === undefined ||
+    (position.new_line === null
+      ? position.old_line === line
+      : position.new_line === line)
+  );
+};
+
+export const isStartedBy = (userId: number) => (
+  discussion: GitLabDiscussion
+): boolean =>
+  !discussion.individual_note &&
+  discussion.notes.length > 0 &&
+  discussion.notes[0].author.id === userId;
+
+/** Every resolvable note of the thread is resolved */
+export const isResolved = (discussion: GitLabDiscussion): boolean =>
+  discussion.notes.every(note => !note.resolvable || note.resolved === true);
+
+/** The threads that the user of the API token started */
+export const getBotDiscussions: GitLabOp<GitLabDiscussion[]> = pipe(
+  getUser,
+  chain(user =>
+    pipe(
+      getMergeRequestDiscussions,
+      map(discussions => discussions.filter(isStartedBy(user.id)))
+    )
+  )
+);
+
+/**
+ * The threads that the user of the API token started on a file, or on a
+ * line of it.
+ */
+export const findBotDiscussions = (
+  path: string,
+  line?: number
+): GitLabOp<GitLabDiscussion[]> =>
+  pipe(
+    getBotDiscussions,
+    map(discussions => discussions.filter(isOnLine(path, line)))
+  );
@@ -0,0 +1,1124 @@
+// An in-memory GitLab serving the endpoints of GitLabClient.ts, plugged into
+// the SDK as its `requester`. Writes change the state, so created notes show
+// up in later reads.
+import { createHash } from "crypto";
+import { Gitlab as GitlabSDK } from "gitlab";
+import { Requester } from "gitlab/dist/infrastructure";
+import { Either, isLeft, isRight, map } from "fp-ts/lib/Either";
+import {
+  chain as chainOption,
+  fromEither,
+  isSome,
+  toUndefined,
+} from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import {
+  GitLabDiscussion,
+  GitLabDiscussionTextPosition,
+  GitLabInlineNote,
+  GitLabJob,
+  GitLabMR,
+  GitLabMRChange,
+  GitLabMRCommit,
+  GitLabNote,
+  GitLabPipeline,
+  GitLabTreeEntry,
+  GitLabUser,
+  GitLabUserProfile,
+  RepoMetaData,
+} from "./GitLabDSL";
+import { findFile, findNewLine, findOldLine, parseChanges } from "./Diff";
+import { findResponse, Recording, recordedJSONDSL } from "./Fixtures";
+import { DecodeError } from "./Decoder";
+import {
+  decodeRepositoryFile,
+  decodeUserProfile,
+  GitLabNotePositionDecoder,
+} from "./GitLabDecoders";
+import { createCache } from "./RequestCache";
+import { defaultRetryPolicy, Gitlab, GitLabEnv } from "./GitLabEnv";
+import { ResponseHeaders } from "./GitLabAPIError";
+
+export interface FakeMergeRequest {
+  mr: GitLabMR;
+  changes: GitLabMRChange[];
+  commits: GitLabMRCommit[];
+  /** Every note belongs to a discussion, plain comments to their own */
+  discussions: GitLabDiscussion[];
+  /** Users who approved */
+  approvedBy: GitLabUser[];
+}
+
+export interface FakeGitLabState {
+  /** Author of the notes created through the API */
+  user: GitLabUserProfile;
+  /** By project path, then by merge request IID */
+  mergeRequests: { [repoSlug: string]: { [iid: string]: FakeMergeRequest } };
+  /** By project path, then by ref, then by file path */
+  files: {
+    [repoSlug: string]: { [ref: string]: { [path: string]: string | Buffer } };
+  };
+  /** By project path, oldest first */
+  pipelines: { [repoSlug: string]: FakePipeline[] };
+  nextId: number;
+}
+
+export interface FakeJob {
+  job: GitLabJob;
+  trace: string;
+  /** Contents by path in the artifacts archive, a Buffer for a binary file */
+  artifacts: { [path: string]: string | Buffer };
+}
+
+export interface FakePipeline {
+  pipeline: GitLabPipeline;
+  /** IID of the merge request the pipeline ran for, if any */
+  mergeRequestIID?: string;
+  jobs: FakeJob[];
+}
+
+export interface FakeRequest {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  /** Path relative to the API root, e.g. "/user" */
+  path: string;
+  query: { [key: string]: unknown };
+  body: unknown;
+}
+
+export interface FakeGitLab {
+  state: FakeGitLabState;
+  /** Every request received, in order */
+  requests: FakeRequest[];
+  requester: Requester;
+  /** SDK instance sending its requests to the fake */
+  api: Gitlab;
+}
+
+export interface FakeGitLabOptions {
+  user: GitLabUserProfile;
+  /** Timestamp of created and updated notes */
+  now: () => string;
+}
+
+export const fakeHost = "https://gitlab.fake";
+
+// Builders, with just enough defaults to pass the decoders
+
+export const buildUser = (
+  overrides: Partial<GitLabUserProfile> = {}
+): GitLabUserProfile => {
+  const username = overrides.username || "reviewer";
+  return {
+    id: 1,
+    name: username,
+    username,
+    state: "active",
+    avatar_url: null,
+    web_url: `${fakeHost}/${username}`,
+    created_at: "2019-01-01T00:00:00.000Z",
+    bio: null,
+    location: null,
+    public_email: "",
+    skype: "",
+    linkedin: "",
+    twitter: "",
+    website_url: "",
+    organization: "",
+    last_sign_in_at: "2019-01-01T00:00:00.000Z",
+    confirmed_at: "2019-01-01T00:00:00.000Z",
+    theme_id: 1,
+    last_activity_on: "2019-01-01",
+    color_scheme_id: 1,
+    projects_limit: 100,
+    current_sign_in_at: "2019-01-01T00:00:00.000Z",
+    identities: [],
+    can_create_group: true,
+    can_create_project: true,
+    two_factor_enabled: false,
+    external: false,
+    private_profile: false,
+    ...overrides,
+  };
+};
+
+const toUser = ({
+  id,
+  name,
+  username,
+  state,
+  avatar_url,
+  web_url,
+}: GitLabUser): GitLabUser => ({
+  id,
+  name,
+  username,
+  state,
+  avatar_url,
+  web_url,
+});
+
+export const buildMergeRequest = (
+  overrides: Partial<GitLabMR> = {}
+): GitLabMR => {
+  const iid = overrides.iid || 1;
+  return {
+    id: iid,
+    iid,
+    project_id: 1,
+    title: "Merge request",
+    description: "",
+    state: "opened",
+    created_at: "2019-01-01T00:00:00.000Z",
+    updated_at: "2019-01-01T00:00:00.000Z",
+    target_branch: "master",
+    source_branch: "feature",
+    upvotes: 0,
+    downvotes: 0,
+    author: toUser(buildUser({ id: 2, username: "author" })),
+    user: { can_merge: true },
+    assignee: null,
+    source_project_id: 1,
+    target_project_id: 1,
+    labels: [],
+    work_in_progress: false,
+    milestone: null,
+    merge_when_pipeline_succeeds: false,
+    merge_status: "can_be_merged",
+    merge_error: null,
+    sha: "b".repeat(40),
+    merge_commit_sha: null,
+    user_notes_count: 0,
+    discussion_locked: null,
+    should_remove_source_branch: null,
+    force_remove_source_branch: false,
+    web_url: `${fakeHost}/group/project/merge_requests/${iid}`,
+    time_stats: {
+      time_estimate: 0,
+      total_time_spent: 0,
+      human_time_estimate: null,
+      human_total_time_spent: null,
+    },
+    squash: false,
+    subscribed: false,
+    changes_count: "0",
+    merged_by: null,
+    merged_at: null,
+    closed_by: null,
+    closed_at: null,
+    latest_build_started_at: null,
+    latest_build_finished_at: null,
+    first_deployed_to_production_at: null,
+    pipeline: null,
+    diff_refs: {
+      base_sha: "a".repeat(40),
+      head_sha: "b".repeat(40),
+      start_sha: "a".repeat(40),
+    },
+    approvals_before_merge: null,
+    ...overrides,
+  };
+};
+
+/**
+ * @param diff Hunks of the unified diff, without the file header
+ */
+export const buildChange = (
+  path: string,
+  diff: string,
+  overrides: Partial<GitLabMRChange> = {}
+): GitLabMRChange => ({
+  old_path: path,
+  new_path: path,
+  a_mode: "100644",
+  b_mode: "100644",
+  diff,
+  new_file: false,
+  renamed_file: false,
+  deleted_file: false,
+  ...overrides,
+});
+
+export const buildCommit = (
+  overrides: Partial<GitLabMRCommit> = {}
+): GitLabMRCommit => {
+  const id = overrides.id || "c".repeat(40);
+  const title = overrides.title || "Commit";
+  return {
+    id,
+    short_id: id.slice(0, 8),
+    created_at: "2019-01-01T00:00:00.000Z",
+    parent_ids: [],
+    title,
+    message: `${title}\n`,
+    author_name: "Author",
+    author_email: "author@example.com",
+    authored_date: "2019-01-01T00:00:00.000Z",
+    committer_name: "Author",
+    committer_email: "author@example.com",
+    committed_date: "2019-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+};
+
+export const buildPipeline = (
+  overrides: Partial<GitLabPipeline> = {}
+): GitLabPipeline => {
+  const id = overrides.id || 1;
+  return {
+    id,
+    sha: "b".repeat(40),
+    ref: "feature",
+    status: "success",
+    web_url: `${fakeHost}/group/project/pipelines/${id}`,
+    created_at: "2019-01-01T00:00:00.000Z",
+    updated_at: "2019-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+};
+
+export const buildJob = (overrides: Partial<GitLabJob> = {}): GitLabJob => {
+  const id = overrides.id || 1;
+  return {
+    id,
+    name: "test",
+    stage: "test",
+    status: "success",
+    ref: "feature",
+    tag: false,
+    allow_failure: false,
+    created_at: "2019-01-01T00:00:00.000Z",
+    started_at: "2019-01-01T00:00:00.000Z",
+    finished_at: "2019-01-01T00:01:00.000Z",
+    duration: 60,
+    web_url: `${fakeHost}/group/project/-/jobs/${id}`,
+    pipeline: {
+      id: 1,
+      sha: "b".repeat(40),
+      ref: "feature",
+      status: "success",
+    },
+    ...overrides,
+  };
+};
+
+export const createFakeGitLab = (
+  options: Partial<FakeGitLabOptions> = {}
+): FakeGitLab => {
+  const { user, now }: FakeGitLabOptions = {
+    user: buildUser(),
+    now: () => new Date().toISOString(),
+    ...options,
+  };
+  const state: FakeGitLabState = {
+    user,
+    mergeRequests: {},
+    files: {},
+    pipelines: {},
+    nextId: 1,
+  };
+  const requests: FakeRequest[] = [];
+  const requester = fakeRequester(state, requests, now);
+  return {
+    state,
+    requests,
+    requester,
+    api: new GitlabSDK({ host: fakeHost, token: "fake-token", requester }),
+  };
+};
+
+export interface FakeMergeRequestSeed {
+  mr: GitLabMR;
+  changes?: GitLabMRChange[];
+  commits?: GitLabMRCommit[];
+  /** Each note is put in a discussion of its own */
+  notes?: GitLabNote[];
+  /** Threads, after the discussions of the notes */
+  discussions?: GitLabDiscussion[];
+}
+
+const nextId = (state: FakeGitLabState): number => state.nextId++;
+
+const discussionId = (state: FakeGitLabState): string =>
+  nextId(state)
+    .toString(16)
+    .padStart(40, "0");
+
+export const addMergeRequest = (
+  fake: FakeGitLab,
+  metadata: RepoMetaData,
+  seed: FakeMergeRequestSeed
+): FakeMergeRequest => {
+  const { state } = fake;
+  const mergeRequest: FakeMergeRequest = {
+    mr: seed.mr,
+    changes: seed.changes || [],
+    commits: seed.commits || [],
+    discussions: [
+      ...(seed.notes || []).map(note => ({
+        id: discussionId(state),
+        individual_note: true,
+        notes: [note],
+      })),
+      ...(seed.discussions || []),
+    ],
+    approvedBy: [],
+  };
+  state.mergeRequests[metadata.repoSlug] = {
+    ...state.mergeRequests[metadata.repoSlug],
+    [metadata.pullRequestID]: mergeRequest,
+  };
+  return mergeRequest;
+};
+
+export const addFile = (
+  fake: FakeGitLab,
+  repoSlug: string,
+  ref: string,
+  path: string,
+  content: string | Buffer
+): void => {
+  const project = fake.state.files[repoSlug] || {};
+  project[ref] = { ...project[ref], [path]: content };
+  fake.state.files[repoSlug] = project;
+};
+
+/**
+ * Add a pipeline of the merge request. The jobs are listed in the pipeline
+ * whatever their own `pipeline` field says.
+ */
+export const addPipeline = (
+  fake: FakeGitLab,
+  metadata: RepoMetaData,
+  pipeline: GitLabPipeline,
+  jobs: Array<Partial<FakeJob> & { job: GitLabJob }> = []
+): FakePipeline => {
+  const added: FakePipeline = {
+    pipeline,
+    mergeRequestIID: metadata.pullRequestID,
+    jobs: jobs.map(job => ({ trace: "", artifacts: {}, ...job })),
+  };
+  const { pipelines } = fake.state;
+  pipelines[metadata.repoSlug] = (pipelines[metadata.repoSlug] || []).concat(
+    added
+  );
+  return added;
+};
+
+/**
+ * A fake serving the merge request, user and files recorded in a fixture
+ * directory, see `Fixtures.ts`.
+ */
+export const fakeFromRecordings = (
+  recordings: Recording[],
+  metadata: RepoMetaData,
+  options: Partial<FakeGitLabOptions> = {}
+): Either<DecodeError, FakeGitLab> =>
+  pipe(
+    recordedJSONDSL(recordings, metadata),
+    map(json => {
+      const user = pipe(
+        findResponse(recordings, "/user"),
+        chainOption(u => fromEither(decodeUserProfile(u))),
+        toUndefined
+      );
+      const fake = createFakeGitLab(user ? { user, ...options } : options);
+      addMergeRequest(fake, metadata, json);
+      recordings.forEach(({ method, path, status, response }) => {
+        const file = path.match(
+          /^\/api\/v4\/projects\/([^/]+)\/repository\/files\/([^/?]+)\?(?:.*&)?ref=([^&]+)/
+        );
+        const content = decodeRepositoryFile(response);
+        if (
+          method.toUpperCase() === "GET" &&
+          status === 200 &&
+          file &&
+          isRight(content)
+        ) {
+          addFile(
+            fake,
+            decodeURIComponent(file[1]),
+            decodeURIComponent(file[3]),
+            decodeURIComponent(file[2]),
+            Buffer.from(content.right.content, "base64").toString()
+          );
+        }
+      });
+      return fake;
+    })
+  );
+
+/**
+ * Environment running the operations of GitLabClient.ts against a fake.
+ * Reads are cached as in production, so writes must invalidate them.
+ */
+export const fakeEnv = (
+  fake: FakeGitLab,
+  metadata: RepoMetaData
+): GitLabEnv => ({
+  api: fake.api,
+  credentials: { host: fakeHost, token: "fake-token" },
+  metadata,
+  log: () => {},
+  retry: defaultRetryPolicy,
+  cache: createCache(),
+});
+
+// The server
+
+interface Response {
+  body: unknown;
+  headers: ResponseHeaders;
+  status: number;
+}
+
+/** Rejection shaped like the SDK's, see `fromUnknown` in GitLabAPIError.ts */
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), {
+    response: { status, headers: {} },
+    description: message,
+  });
+
+const notFound = (what: string) => httpError(404, `404 ${what} Not Found`);
+
+/** The fields of a request body, none if it isn't an object */
+type Fields = { [key: string]: unknown };
+
+const fieldsOf = (body: unknown): Fields =>
+  body !== null && typeof body === "object" ? (body as Fields) : {};
+
+/** A required text field, refused as GitLab does when it's missing */
+const requiredText = (fields: Fields, key: string): string => {
+  const value = fields[key];
+  if (typeof value !== "string" || value === "") {
+    throw httpError(400, `400 Bad request - ${key} is missing`);
+  }
+  return value;
+};
+
+const ok = (body: unknown, status: number = 200): Response => ({
+  body,
+  headers: {},
+  status,
+});
+
+/**
+ * A page of the items when the query asks for one, all of them otherwise.
+ */
+const paginated = (
+  items: unknown[],
+  query: { [key: string]: unknown }
+): Response => {
+  if (query.page === undefined) {
+    return ok(items);
+  }
+  const page = Number(query.page);
+  const perPage = Number(query.perPage || query.per_page || 20);
+  const totalPages = Math.max(1, Math.ceil(items.length / perPage));
+  const header = (n: number) => (n >= 1 && n <= totalPages ? String(n) : "");
+  return {
+    body: items.slice((page - 1) * perPage, page * perPage),
+    headers: {
+      "x-page": String(page),
+      "x-per-page": String(perPage),
+      "x-total": String(items.length),
+      "x-total-pages": String(totalPages),
+      "x-next-page": header(page + 1),
+      "x-prev-page": header(page - 1),
+    },
+    status: 200,
+  };
+};
+
+const allNotes = (mergeRequest: FakeMergeRequest): GitLabNote[] =>
+  mergeRequest.discussions.reduce<GitLabNote[]>(
+    (notes, discussion) => notes.concat(discussion.notes),
+    []
+  );
+
+/**
+ * GitLab only accepts positions on a line of the diff of the merge request.
+ */
+const isValidPosition = (
+  mergeRequest: FakeMergeRequest,
+  position: GitLabDiscussionTextPosition
+): boolean => {
+  const file = toUndefined(
+    findFile(parseChanges(mergeRequest.changes), position.new_path)
+  );
+  if (!file) {
+    return false;
+  }
+  return position.new_line !== null
+    ? isSome(findNewLine(file, position.new_line))
+    : position.old_line !== null &&
+        isSome(findOldLine(file, position.old_line));
+};
+
+const fakeRequester = (
+  state: FakeGitLabState,
+  requests: FakeRequest[],
+  now: () => string
+): Requester => {
+  const author = () => toUser(state.user);
+
+  const newNote = (
+    mergeRequest: FakeMergeRequest,
+    body: string,
+    position?: GitLabDiscussionTextPosition
+  ): GitLabNote => {
+    const timestamp = now();
+    const note: GitLabNote = {
+      id: nextId(state),
+      type: position ? "DiffNote" : null,
+      body,
+      attachment: null,
+      author: author(),
+      created_at: timestamp,
+      updated_at: timestamp,
+      system: false,
+      noteable_id: mergeRequest.mr.id,
+      noteable_type: "MergeRequest",
+      resolvable: position !== undefined,
+      noteable_iid: mergeRequest.mr.iid,
+    };
+    mergeRequest.mr.user_notes_count++;
+    if (!position) {
+      return note;
+    }
+    const inline: GitLabInlineNote = {
+      ...note,
+      position,
+      resolved: false,
+      resolved_by: null,
+    };
+    return inline;
+  };
+
+  const findNote = (mergeRequest: FakeMergeRequest, id: number) => {
+    const discussion = mergeRequest.discussions.find(d =>
+      d.notes.some(note => note.id === id)
+    );
+    if (!discussion) {
+      throw notFound("Note");
+    }
+    return { discussion, index: discussion.notes.findIndex(n => n.id === id) };
+  };
+
+  const commaSeparated = (value: unknown): string[] =>
+    typeof value === "string" && value !== "" ? value.split(",") : [];
+
+  const userWithId = (id: number): GitLabUser =>
+    id === state.user.id
+      ? author()
+      : toUser(buildUser({ id, username: `user${id}` }));
+
+  const editMergeRequest = (mergeRequest: FakeMergeRequest, body: Fields) => {
+    const { mr } = mergeRequest;
+    if (typeof body.title === "string") {
+      mr.title = body.title;
+      mr.work_in_progress = /^\s*(\[wip\]|wip:|\[draft\]|\(draft\)|draft:|draft\s-)/i.test(
+        body.title
+      );
+    }
+    if (typeof body.description === "string") {
+      mr.description = body.description;
+    }
+    if (body.labels !== undefined) {
+      mr.labels = commaSeparated(body.labels);
+    }
+    const added = commaSeparated(body.add_labels);
+    const removed = commaSeparated(body.remove_labels);
+    mr.labels = mr.labels
+      .concat(added.filter(label => !mr.labels.includes(label)))
+      .filter(label => !removed.includes(label));
+    if (typeof body.assignee_id === "number") {
+      mr.assignee =
+        body.assignee_id === 0 ? null : userWithId(body.assignee_id);
+      mr.assignees = mr.assignee ? [mr.assignee] : [];
+    }
+    if (Array.isArray(body.reviewer_ids)) {
+      mr.reviewers = body.reviewer_ids
+        .filter((id): id is number => typeof id === "number")
+        .map(userWithId);
+    }
+    if (body.state_event !== undefined) {
+      mr.state = body.state_event === "close" ? "closed" : "opened";
+    }
+    mr.updated_at = now();
+  };
+
+  const approvals = (mergeRequest: FakeMergeRequest) => ({
+    id: mergeRequest.mr.id,
+    iid: mergeRequest.mr.iid,
+    approved_by: mergeRequest.approvedBy.map(user => ({ user })),
+  });
+
+  /** Refuses as GitLab does: 405 if not mergeable, 406 unless can_be_merged */
+  const merge = (mergeRequest: FakeMergeRequest, body: Fields): GitLabMR => {
+    const { mr } = mergeRequest;
+    if (mr.state !== "opened" || mr.work_in_progress) {
+      throw httpError(405, "405 Method Not Allowed");
+    }
+    if (mr.merge_status !== "can_be_merged") {
+      throw httpError(406, "Branch cannot be merged");
+    }
+    if (body.sha !== undefined && body.sha !== mr.sha) {
+      throw httpError(409, "SHA does not match HEAD of source branch");
+    }
+    if (body.merge_when_pipeline_succeeds) {
+      mr.merge_when_pipeline_succeeds = true;
+      return mr;
+    }
+    Object.assign(mr, {
+      state: "merged",
+      merged_by: author(),
+      merged_at: now(),
+      merge_commit_sha: "f".repeat(40),
+      squash: body.squash === true,
+      should_remove_source_branch: body.should_remove_source_branch === true,
+    });
+    return mr;
+  };
+
+  /** The position of a new thread, refused as GitLab does off the diff */
+  const positionOf = (
+    mergeRequest: FakeMergeRequest,
+    u: unknown
+  ): GitLabDiscussionTextPosition | undefined => {
+    if (u === undefined) {
+      return undefined;
+    }
+    const position = GitLabNotePositionDecoder(u, "position");
+    if (isLeft(position) || !isValidPosition(mergeRequest, position.right)) {
+      throw httpError(
+        400,
+        '400 Bad request - Note {:line_code=>["can\'t be blank"]}'
+      );
+    }
+    return position.right;
+  };
+
+  const findDiscussion = (mergeRequest: FakeMergeRequest, id: string) => {
+    const discussion = mergeRequest.discussions.find(d => d.id === id);
+    if (!discussion) {
+      throw notFound("Discussion");
+    }
+    return discussion;
+  };
+
+  const mergeRequestRoute = (
+    method: FakeRequest["method"],
+    mergeRequest: FakeMergeRequest,
+    rest: string,
+    query: { [key: string]: unknown },
+    body: Fields
+  ): Response => {
+    const note = rest.match(/^\/notes\/(\d+)$/);
+    const thread = rest.match(/^\/discussions\/(\w+)(\/notes)?$/);
+    const path = note
+      ? "/notes/:id"
+      : thread
+      ? `/discussions/:id${thread[2] || ""}`
+      : rest;
+    switch (`${method} ${path}`) {
+      case "GET ":
+        return ok(mergeRequest.mr);
+      case "GET /changes":
+        return ok({ ...mergeRequest.mr, changes: mergeRequest.changes });
+      case "GET /commits":
+        return paginated(mergeRequest.commits, query);
+      case "GET /notes":
+        return paginated(allNotes(mergeRequest), query);
+      case "GET /discussions":
+        return paginated(mergeRequest.discussions, query);
+      case "POST /notes": {
+        const created = newNote(mergeRequest, requiredText(body, "body"));
+        mergeRequest.discussions.push({
+          id: discussionId(state),
+          individual_note: true,
+          notes: [created],
+        });
+        return ok(created, 201);
+      }
+      case "POST /discussions": {
+        const discussion: GitLabDiscussion = {
+          id: discussionId(state),
+          individual_note: false,
+          notes: [
+            newNote(
+              mergeRequest,
+              requiredText(body, "body"),
+              positionOf(mergeRequest, body.position)
+            ),
+          ],
+        };
+        mergeRequest.discussions.push(discussion);
+        return ok(discussion, 201);
+      }
+      case "POST /discussions/:id/notes": {
+        const discussion = findDiscussion(
+          mergeRequest,
+          (thread as RegExpMatchArray)[1]
+        );
+        const [first] = discussion.notes;
+        const reply = newNote(
+          mergeRequest,
+          requiredText(body, "body"),
+          first.position
+        );
+        discussion.notes.push({
+          ...reply,
+          type: first.position ? "DiffNote" : "DiscussionNote",
+          resolvable: true,
+          resolved: false,
+          resolved_by: null,
+        });
+        return ok(discussion.notes[discussion.notes.length - 1], 201);
+      }
+      case "PUT /discussions/:id": {
+        const discussion = findDiscussion(
+          mergeRequest,
+          (thread as RegExpMatchArray)[1]
+        );
+        discussion.notes = discussion.notes.map(n =>
+          n.resolvable
+            ? {
+                ...n,
+                resolved: body.resolved === true,
+                resolved_by: body.resolved === true ? author() : null,
+              }
+            : n
+        );
+        return ok(discussion);
+      }
+      case "PUT ":
+        editMergeRequest(mergeRequest, body);
+        return ok(mergeRequest.mr);
+      case "POST /approve": {
+        const approver = author();
+        if (mergeRequest.approvedBy.some(u => u.id === approver.id)) {
+          throw httpError(401, "401 Unauthorized");
+        }
+        mergeRequest.approvedBy.push(approver);
+        return ok(approvals(mergeRequest), 201);
+      }
+      case "POST /unapprove": {
+        const approver = author();
+        if (!mergeRequest.approvedBy.some(u => u.id === approver.id)) {
+          throw notFound("Approval");
+        }
+        mergeRequest.approvedBy = mergeRequest.approvedBy.filter(
+          u => u.id !== approver.id
+        );
+        return ok(approvals(mergeRequest), 201);
+      }
+      case "PUT /merge":
+        return ok(merge(mergeRequest, body));
+      case "PUT /notes/:id": {
+        const { discussion, index } = findNote(
+          mergeRequest,
+          parseInt((note as RegExpMatchArray)[1], 10)
+        );
+        const updated = {
+          ...discussion.notes[index],
+          body: requiredText(body, "body"),
+          updated_at: now(),
+        };
+        discussion.notes[index] = updated;
+        return ok(updated);
+      }
+      case "DELETE /notes/:id": {
+        const { discussion, index } = findNote(
+          mergeRequest,
+          parseInt((note as RegExpMatchArray)[1], 10)
+        );
+        discussion.notes.splice(index, 1);
+        // Deleting the only note of a discussion deletes the discussion
+        if (discussion.notes.length === 0) {
+          mergeRequest.discussions.splice(
+            mergeRequest.discussions.indexOf(discussion),
+            1
+          );
+        }
+        mergeRequest.mr.user_notes_count--;
+        return ok("", 204);
+      }
+      default:
+        throw notFound("Route");
+    }
+  };
+
+  /** The filters of `listMergeRequests`, newest first as GitLab lists them */
+  const listMergeRequests = (
+    repoSlug: string,
+    query: { [key: string]: unknown }
+  ): GitLabMR[] => {
+    const project = state.mergeRequests[repoSlug] || {};
+    const labels = commaSeparated(query.labels);
+    return Object.keys(project)
+      .map(iid => project[iid].mr)
+      .filter(
+        mr =>
+          (query.state === undefined ||
+            query.state === "all" ||
+            mr.state === query.state) &&
+          labels.every(label => mr.labels.includes(label)) &&
+          (query.author_username === undefined ||
+            mr.author.username === query.author_username) &&
+          (query.target_branch === undefined ||
+            mr.target_branch === query.target_branch) &&
+          (query.updated_after === undefined ||
+            mr.updated_at > String(query.updated_after)) &&
+          (query.wip === undefined ||
+            mr.work_in_progress === (query.wip === "yes"))
+      )
+      .sort(
+        (a, b) => b.created_at.localeCompare(a.created_at) || b.iid - a.iid
+      );
+  };
+
+  /** The directories and files under `query.path`, sorted by path */
+  const treeOf = (
+    repoSlug: string,
+    query: { [key: string]: unknown }
+  ): GitLabTreeEntry[] => {
+    const files = (state.files[repoSlug] || {})[String(query.ref)];
+    const root = query.path ? `${String(query.path).replace(/\/$/, "")}/` : "";
+    const paths = Object.keys(files || {}).filter(p => p.startsWith(root));
+    if (!files || (root !== "" && paths.length === 0)) {
+      throw notFound("Tree");
+    }
+    const entries: { [path: string]: GitLabTreeEntry } = {};
+    paths.forEach(filePath => {
+      const parts = filePath.slice(root.length).split("/");
+      const depth = query.recursive === true ? parts.length : 1;
+      for (let i = 1; i <= depth; i++) {
+        const entryPath = root + parts.slice(0, i).join("/");
+        const blob = i === parts.length;
+        entries[entryPath] = {
+          id: createHash("sha1")
+            .update(blob ? files[filePath] : entryPath)
+            .digest("hex"),
+          name: parts[i - 1],
+          type: blob ? "blob" : "tree",
+          path: entryPath,
+          mode: blob ? "100644" : "040000",
+        };
+      }
+    });
+    return Object.keys(entries)
+      .sort()
+      .map(entryPath => entries[entryPath]);
+  };
+
+  const pipelinesOf = (repoSlug: string, iid: string) =>
+    (state.pipelines[repoSlug] || []).filter(p => p.mergeRequestIID === iid);
+
+  const findPipeline = (repoSlug: string, id: number) => {
+    const found = (state.pipelines[repoSlug] || []).find(
+      p => p.pipeline.id === id
+    );
+    if (!found) {
+      throw notFound("Pipeline");
+    }
+    return found;
+  };
+
+  const findJob = (repoSlug: string, id: number) => {
+    const found = (state.pipelines[repoSlug] || [])
+      .map(p => p.jobs.find(j => j.job.id === id))
+      .find(job => job !== undefined);
+    if (!found) {
+      throw notFound("Job");
+    }
+    return found;
+  };
+
+  /** Retried jobs are added as new jobs, as GitLab does */
+  const retry = (pipeline: FakePipeline) => {
+    // Newer attempts have greater ids
+    const lastId = Math.max(0, ...pipeline.jobs.map(({ job }) => job.id));
+    pipeline.jobs
+      .filter(({ job }) => job.status === "failed" || job.status === "canceled")
+      .forEach(({ job }, i) =>
+        pipeline.jobs.push({
+          job: {
+            ...job,
+            id: lastId + i + 1,
+            status: "pending",
+            started_at: null,
+            finished_at: null,
+            duration: null,
+            failure_reason: undefined,
+          },
+          trace: "",
+          artifacts: {},
+        })
+      );
+    pipeline.pipeline.status = "running";
+  };
+
+  const cancel = (pipeline: FakePipeline) => {
+    pipeline.jobs.forEach(({ job }) => {
+      if (["created", "pending", "running"].includes(job.status)) {
+        job.status = "canceled";
+      }
+    });
+    pipeline.pipeline.status = "canceled";
+  };
+
+  const pipelineRoute = (
+    method: FakeRequest["method"],
+    repoSlug: string,
+    rest: string,
+    query: { [key: string]: unknown }
+  ): Response => {
+    const jobs = rest.match(/^\/pipelines\/(\d+)\/jobs$/);
+    if (method === "GET" && jobs) {
+      const { pipeline, jobs: all } = findPipeline(repoSlug, Number(jobs[1]));
+      return paginated(
+        all.map(({ job }) => ({
+          ...job,
+          pipeline: { ...job.pipeline, id: pipeline.id },
+        })),
+        query
+      );
+    }
+    const action = rest.match(/^\/pipelines\/(\d+)\/(retry|cancel)$/);
+    if (method === "POST" && action) {
+      const pipeline = findPipeline(repoSlug, Number(action[1]));
+      (action[2] === "retry" ? retry : cancel)(pipeline);
+      return ok(pipeline.pipeline, 201);
+    }
+    const trace = rest.match(/^\/jobs\/(\d+)\/trace$/);
+    if (method === "GET" && trace) {
+      return ok(findJob(repoSlug, Number(trace[1])).trace);
+    }
+    const artifact = rest.match(/^\/jobs\/(\d+)\/artifacts\/(.+)$/);
+    if (method === "GET" && artifact) {
+      const { artifacts } = findJob(repoSlug, Number(artifact[1]));
+      const content =
+        artifacts[
+          artifact[2]
+            .split("/")
+            .map(decodeURIComponent)
+            .join("/")
+        ];
+      if (content === undefined) {
+        throw notFound("Artifact");
+      }
+      // The HTTP client reads every body as text, a binary one mangled
+      return {
+        body: content.toString(),
+        headers: {
+          "content-type":
+            typeof content === "string"
+              ? "text/plain"
+              : "application/octet-stream",
+        },
+        status: 200,
+      };
+    }
+    throw notFound("Route");
+  };
+
+  const route = (request: FakeRequest): Response => {
+    const { method, path, query, body } = request;
+    if (method === "GET" && path === "/user") {
+      return ok(state.user);
+    }
+    const list = path.match(/^\/projects\/([^/]+)\/merge_requests$/);
+    if (method === "GET" && list) {
+      return paginated(
+        listMergeRequests(decodeURIComponent(list[1]), query),
+        query
+      );
+    }
+    const mr = path.match(/^\/projects\/([^/]+)\/merge_requests\/(\d+)(.*)$/);
+    if (mr) {
+      const project = state.mergeRequests[decodeURIComponent(mr[1])] || {};
+      const mergeRequest = project[mr[2]];
+      if (!mergeRequest) {
+        throw notFound("Merge Request");
+      }
+      if (method === "GET" && mr[3] === "/pipelines") {
+        const newestFirst = pipelinesOf(decodeURIComponent(mr[1]), mr[2])
+          .map(p => p.pipeline)
+          .reverse();
+        return paginated(newestFirst, query);
+      }
+      return mergeRequestRoute(
+        method,
+        mergeRequest,
+        mr[3],
+        query,
+        fieldsOf(body)
+      );
+    }
+    const project = path.match(/^\/projects\/([^/]+)\/(pipelines|jobs)\/.*$/);
+    if (project) {
+      return pipelineRoute(
+        method,
+        decodeURIComponent(project[1]),
+        path.slice(path.indexOf(`/${project[2]}/`)),
+        query
+      );
+    }
+    const tree = path.match(/^\/projects\/([^/]+)\/repository\/tree$/);
+    if (method === "GET" && tree) {
+      return paginated(treeOf(decodeURIComponent(tree[1]), query), query);
+    }
+    const file = path.match(
+      /^\/projects\/([^/]+)\/repository\/files\/([^/]+)$/
+    );
+    if (method === "GET" && file) {
+      const ref = String(query.ref);
+      const filePath = decodeURIComponent(file[2]);
+      const files = (state.files[decodeURIComponent(file[1])] || {})[ref] || {};
+      if (files[filePath] === undefined) {
+        throw notFound("File");
+      }
+      const content = files[filePath];
+      const bytes =
+        typeof content === "string" ? Buffer.from(content) : content;
+      return ok({
+        file_name: filePath.split("/").pop(),
+        file_path: filePath,
+        ref,
+        encoding: "base64",
+        size: bytes.length,
+        content: bytes.toString("base64"),
+      });
+    }
+    throw notFound("Route");
+  };
+
+  const handler = (method: FakeRequest["method"]) => (
+    service: { url: string },
+    endpoint: string,
+    options: { query?: { [key: string]: unknown }; body?: unknown } = {}
+  ): Promise<Response> => {
+    // Services have different URL prefixes, e.g. ".../api/v4/projects"
+    const url = `${service.url.replace(/\/$/, "")}/${endpoint}`;
+    const request: FakeRequest = {
+      method,
+      path: url.replace(/^.*?\/api\/v4/, ""),
+      query: options.query || {},
+      body: options.body,
+    };
+    requests.push(request);
+    try {
+      // Copied, so that callers can't change the state through a response
+      return Promise.resolve(JSON.parse(JSON.stringify(route(request))));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  };
+
+  return {
+    get: handler("GET"),
+    post: handler("POST"),
+    put: handler("PUT"),
+    delete: handler("DELETE"),
+  };
+};
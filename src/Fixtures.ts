@@ -0,0 +1,106 @@
+// Offline access to responses recorded by nock, as in src/_tests/fixtures.
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { Either, isRight } from "fp-ts/lib/Either";
+import { findFirst } from "fp-ts/lib/Array";
+import { map, toUndefined } from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import { DecodeError, Decoder, number, string, type, unknown } from "./Decoder";
+import { GitLabJSONDSL, RepoMetaData } from "./GitLabDSL";
+import { decodeJSONDSL, decodeRepositoryFile } from "./GitLabDecoders";
+import { fileEndpoint, mergeRequestEndpoint } from "./GitLabEnv";
+import { FileContents } from "./GitLabDSLBuilder";
+
+/** A request as saved by `nock.back` in record mode */
+export interface Recording {
+  method: string;
+  /** Full request path, including `/api/v4` and the query */
+  path: string;
+  status: number;
+  response: unknown;
+}
+
+const RecordingDecoder: Decoder<Recording> = type({
+  method: string,
+  path: string,
+  status: number,
+  response: unknown,
+});
+
+const isRecording = (u: unknown): u is Recording =>
+  isRight(RecordingDecoder(u, ""));
+
+/** The changes of a merge request are checked with the rest of the DSL */
+const WithChangesDecoder = type({ changes: unknown });
+
+/**
+ * All recordings of the `.json` files in a directory. Other JSON files are
+ * ignored.
+ */
+export const loadRecordings = (dir: string): Recording[] =>
+  readdirSync(dir)
+    .filter(name => name.endsWith(".json"))
+    .map(name => JSON.parse(readFileSync(join(dir, name)).toString()))
+    .filter(Array.isArray)
+    .reduce<Recording[]>(
+      (recordings, content: unknown[]) =>
+        recordings.concat(content.filter(isRecording)),
+      []
+    );
+
+const withoutQuery = (path: string) => path.split("?")[0];
+
+/**
+ * The successful response of a GET, ignoring the query.
+ * @param endpoint Path relative to the API root, e.g. "/user"
+ */
+export const findResponse = (recordings: Recording[], endpoint: string) =>
+  pipe(
+    findFirst(
+      (r: Recording) =>
+        r.method.toUpperCase() === "GET" &&
+        r.status === 200 &&
+        withoutQuery(r.path) === `/api/v4${endpoint}`
+    )(recordings),
+    map(r => r.response)
+  );
+
+/**
+ * The JSON DSL of a merge request from its recorded responses.
+ */
+export const recordedJSONDSL = (
+  recordings: Recording[],
+  metadata: RepoMetaData
+): Either<DecodeError, GitLabJSONDSL> => {
+  const endpoint = mergeRequestEndpoint(metadata);
+  const find = (path: string) => toUndefined(findResponse(recordings, path));
+  const changes = WithChangesDecoder(find(`${endpoint}/changes`), "");
+  return decodeJSONDSL({
+    metadata,
+    mr: find(endpoint),
+    commits: find(`${endpoint}/commits`),
+    changes: isRight(changes) ? changes.right.changes : undefined,
+    notes: find(`${endpoint}/notes`),
+  });
+};
+
+/**
+ * `utils.fileContents` reading recorded files, "" for files that weren't
+ * recorded. The ref is ignored.
+ */
+export const recordedFileContents = (
+  recordings: Recording[],
+  metadata: RepoMetaData
+): FileContents => (path, repoSlug) => {
+  const file = decodeRepositoryFile(
+    toUndefined(
+      findResponse(
+        recordings,
+        fileEndpoint(repoSlug || metadata.repoSlug, path)
+      )
+    )
+  );
+  return Promise.resolve(
+    isRight(file) ? Buffer.from(file.right.content, "base64").toString() : ""
+  );
+};
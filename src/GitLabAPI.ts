@@ -1,19 +1,22 @@
 // Adapted from
 // https://github.com/danger/danger-js/blob/master/source/platforms/gitlab/GitLabAPI.ts
-import debug from "debug";
-import { Gitlab } from "gitlab";
 import {
+  GitLabDiscussion,
+  GitLabDiscussionNote,
   GitLabDiscussionTextPosition,
+  GitLabDSL,
   GitLabInlineNote,
+  GitLabJob,
   GitLabMR,
   GitLabMRChange,
-  GitLabMRChanges,
   GitLabMRCommit,
+  GitLabMRSummary,
   GitLabNote,
+  GitLabPipeline,
+  GitLabTreeEntry,
   GitLabUserProfile,
   RepoMetaData,
 } from "./GitLabDSL";
-import { Lazy } from "fp-ts/lib/function";
 import {
   chain,
   fromEither,
@@ -21,17 +24,99 @@ import {
   tryCatch,
   TaskEither,
 } from "fp-ts/lib/TaskEither";
-import { Either, left, right, toError } from "fp-ts/lib/Either";
+import { Task } from "fp-ts/lib/Task";
+import { Option } from "fp-ts/lib/Option";
+import {
+  Either,
+  getValidation,
+  isRight,
+  left,
+  map as mapEither,
+  mapLeft,
+  right,
+  toError as unknownToError,
+} from "fp-ts/lib/Either";
+import { getMonoid } from "fp-ts/lib/Array";
+import { sequenceS } from "fp-ts/lib/Apply";
+import { URL } from "url";
+import { DecodeError, DecodeFailure } from "./Decoder";
 import { pipe } from "fp-ts/lib/pipeable";
 import { flow } from "fp-ts/lib/function";
 import { GetResponse } from "gitlab/dist/infrastructure";
 import TE from "./TaskEitherUtils";
+import { decode, fromUnknown, GitLabAPIError, toError } from "./GitLabAPIError";
+import { decodeUserProfile } from "./GitLabDecoders";
+import {
+  addLabels,
+  approveMergeRequest,
+  createEnv,
+  createMergeRequestDiscussion,
+  createMergeRequestNote,
+  deleteMergeRequestNote,
+  getFileContents,
+  getMergeRequestChanges,
+  getMergeRequestCommits,
+  getMergeRequestDiscussions,
+  getMergeRequestInfo,
+  getMergeRequestInlineNotes,
+  getMergeRequestNotes,
+  getUser,
+  Gitlab,
+  GitLabEnv,
+  GitLabOp,
+  mergeMergeRequest,
+  MergeOptions,
+  MergeRequestUpdate,
+  removeLabels,
+  replyToDiscussion,
+  resolveDiscussion,
+  setAssignee,
+  setReviewers,
+  setWorkInProgress,
+  unapproveMergeRequest,
+  unresolveDiscussion,
+  updateMergeRequest,
+  updateMergeRequestNote,
+} from "./GitLabClient";
+import { findBotDiscussions } from "./Discussions";
+import {
+  cancelPipeline,
+  getJobArtifact,
+  getJobFailures,
+  getJobTrace,
+  getMergeRequestPipelines,
+  getPipelineJobs,
+  JobFailure,
+  retryPipeline,
+} from "./Pipelines";
+import { getMergeRequestTimeline, TimelineEntry } from "./Timeline";
+import {
+  findRepositoryFile,
+  FileVersions,
+  getFileVersions,
+  getRepositoryFile,
+  getRepositoryTree,
+  RepositoryFile,
+  TreeOptions,
+} from "./RepositoryFiles";
+import { BatchResult, listMergeRequests, MergeRequestFilter } from "./Projects";
+import {
+  getReviewReport,
+  getReviewReports,
+  ReviewAnalyticsOptions,
+  ReviewReport,
+} from "./ReviewAnalytics";
+import { mergeRequestEndpoint } from "./GitLabEnv";
+import { getGitLabDSL } from "./GitLabDSLBuilder";
+import { debugLogger, summarize } from "./Logging";
 
 export type GitLabAPIToken = string;
 
 export interface GitLabAPICredentials {
   host: string;
   token: GitLabAPIToken;
+  /** A CI_JOB_TOKEN is sent as `JOB-TOKEN` instead of `PRIVATE-TOKEN` */
+  tokenType?: "private" | "job";
 }
 
 // K.S. Simplify with mock credentials instead of reading from env
@@ -40,45 +125,152 @@ export const getGitLabAPICredentials = (): GitLabAPICredentials => ({
   token: "SOMETHING_REALLY_SECRET",
 });
 
-const debugLog = debug("GitLabAPI");
+const debugLog = debugLogger("GitLabAPI");
 
-/* export function getGitLabAPICredentialsFromEnv(env: Env): GitLabAPICredentials {
-  let host = "https://gitlab.com"
-  const envHost = env["DANGER_GITLAB_HOST"]
-  if (envHost) {
-    // We used to support DANGER_GITLAB_HOST being just the host e.g. "gitlab.com"
-    // however it is possible to have a custom host without SSL, ensure we only add the protocol if one is not provided
-    const protocolRegex = /^http(s)*?:\/\//i
-    host = protocolRegex.test(envHost) ? envHost : `https://${envHost}`
-  }
+/** Environment variables, e.g. `process.env` */
+export interface Env {
+  [name: string]: string | undefined;
+}
+
+type EnvValidation<A> = Either<DecodeFailure[], A>;
+
+const validation = getValidation(getMonoid<DecodeFailure>());
 
-  return {
-    host,
-    token: env["DANGER_GITLAB_API_TOKEN"],
+const missing = (name: string, ...alternatives: string[]): DecodeFailure => ({
+  path: name,
+  message:
+    alternatives.length > 0
+      ? `missing (or ${alternatives.join(", ")})`
+      : "missing",
+});
+
+const malformed = (name: string, expected: string, value: string) => ({
+  path: name,
+  message: `expected ${expected}, got ${JSON.stringify(value)}`,
+});
+
+const isURL = (value: string): boolean => {
+  try {
+    return new URL(value).hostname !== "";
+  } catch (e) {
+    return false;
   }
-} */
+};
 
-function hasKey<K extends string>(o: {}, k: K): o is { [_ in K]: any } {
-  return typeof o === "object" && k in o;
-}
+const readHost = (env: Env): EnvValidation<string> => {
+  const name = env["DANGER_GITLAB_HOST"]
+    ? "DANGER_GITLAB_HOST"
+    : "CI_SERVER_URL";
+  const value = env[name];
+  if (!value) {
+    return right("https://gitlab.com");
+  }
+  // We used to support DANGER_GITLAB_HOST being just the host e.g. "gitlab.com"
+  // however it is possible to have a custom host without SSL, ensure we only add the protocol if one is not provided
+  const protocolRegex = /^https?:\/\//i;
+  const host = (protocolRegex.test(value) ? value : `https://${value}`).replace(
+    /\/+$/,
+    ""
+  );
+  return isURL(host) ? right(host) : left([malformed(name, "a URL", value)]);
+};
 
-const log = (str: string) => () => {
-  debugLog(str);
+const readToken = (
+  env: Env
+): EnvValidation<Pick<GitLabAPICredentials, "token" | "tokenType">> => {
+  const token = env["DANGER_GITLAB_API_TOKEN"];
+  if (token) {
+    return right({ token, tokenType: "private" });
+  }
+  const jobToken = env["CI_JOB_TOKEN"];
+  return jobToken
+    ? right({ token: jobToken, tokenType: "job" })
+    : left([missing("DANGER_GITLAB_API_TOKEN", "CI_JOB_TOKEN")]);
 };
 
-const logValue = TE.logValueWith(debugLog);
+const readRequired = (env: Env, name: string): EnvValidation<string> => {
+  const value = env[name];
+  return value ? right(value) : left([missing(name)]);
+};
 
-type Gitlab = InstanceType<typeof Gitlab>;
+const readMergeRequestIID = (env: Env): EnvValidation<string> => {
+  const name = "CI_MERGE_REQUEST_IID";
+  const value = env[name];
+  if (!value) {
+    return left([missing(name)]);
+  }
+  return /^[1-9]\d*$/.test(value.trim())
+    ? right(value.trim())
+    : left([malformed(name, "a positive integer", value)]);
+};
 
+const validateCredentials = (env: Env): EnvValidation<GitLabAPICredentials> =>
+  pipe(
+    sequenceS(validation)({ host: readHost(env), token: readToken(env) }),
+    mapEither(({ host, token }) => ({ host, ...token }))
+  );
+
+const validateRepoMetaData = (env: Env): EnvValidation<RepoMetaData> =>
+  sequenceS(validation)({
+    repoSlug: readRequired(env, "CI_PROJECT_PATH"),
+    pullRequestID: readMergeRequestIID(env),
+  });
+
+const invalidEnv = mapLeft(
+  (failures: DecodeFailure[]) => new DecodeError("environment", failures)
+);
+
+/**
+ * Credentials from `DANGER_GITLAB_HOST`/`DANGER_GITLAB_API_TOKEN`, falling
+ * back to GitLab CI's `CI_SERVER_URL`/`CI_JOB_TOKEN`.
+ */
+export const getGitLabAPICredentialsFromEnv = (
+  env: Env
+): Either<DecodeError, GitLabAPICredentials> =>
+  invalidEnv(validateCredentials(env));
+
+/**
+ * The merge request of a pipeline from `CI_PROJECT_PATH` and
+ * `CI_MERGE_REQUEST_IID`. Set them by hand to run outside of GitLab CI.
+ */
+export const getRepoMetaDataFromEnv = (
+  env: Env
+): Either<DecodeError, RepoMetaData> => invalidEnv(validateRepoMetaData(env));
+
+/**
+ * Credentials and merge request, listing every missing or malformed
+ * variable at once.
+ */
+export const getConfigFromEnv = (
+  env: Env
+): Either<
+  DecodeError,
+  { credentials: GitLabAPICredentials; metadata: RepoMetaData }
+> =>
+  invalidEnv(
+    sequenceS(validation)({
+      credentials: validateCredentials(env),
+      metadata: validateRepoMetaData(env),
+    })
+  );
+
+const toPromise = TE.toPromise(toError);
+
+/**
+ * Adapter running the programs of GitLabClient.ts against a single merge request.
+ */
 class GitLabAPI {
+  readonly env: GitLabEnv;
   private readonly api: Gitlab;
   private readonly hostURL: string;
 
   constructor(
     public readonly repoMetadata: RepoMetaData,
-    public readonly repoCredentials: GitLabAPICredentials
+    public readonly repoCredentials: GitLabAPICredentials,
+    env: GitLabEnv = createEnv(repoMetadata, repoCredentials, debugLog)
   ) {
-    this.api = new Gitlab(repoCredentials);
+    this.env = env;
+    this.api = this.env.api;
     this.hostURL = repoCredentials.host;
   }
 
@@ -90,60 +282,41 @@ class GitLabAPI {
     return `${this.projectURL}/merge_requests/${this.repoMetadata.pullRequestID}`;
   }
 
-  getUser = async (): Promise<GitLabUserProfile> => {
-    debugLog("getUser");
-    const user: GitLabUserProfile = (await this.api.Users.current()) as GitLabUserProfile;
-    debugLog("getUser", user);
-    return user;
-  };
+  /** Path of the merge request relative to the API root */
+  get mergeRequestEndpoint(): string {
+    return mergeRequestEndpoint(this.repoMetadata);
+  }
 
-  getUserFp = (): TaskEither<Error, GitLabUserProfile> => {
-    // I/O action for fetching user from API
-    const getUserThunk: Lazy<Promise<GetResponse>> = () => {
-      debugLog("getUser");
-      return this.api.Users.current();
-    };
+  /**
+   * Run any program from GitLabClient.ts with this instance's environment.
+   */
+  run = <A>(op: GitLabOp<A>): TaskEither<GitLabAPIError, A> => op(this.env);
 
-    // Validate user profile
-    const validateUserProfile = (
-      response: object
-    ): Either<Error, GitLabUserProfile> => {
-      // TODO Better validation
-      return hasKey(response, "id")
-        ? right(response as GitLabUserProfile)
-        : left(Error("Invalid user profile"));
-    };
+  getUser = (): Promise<GitLabUserProfile> => toPromise(this.getUserFp());
 
-    // Pipe computations
-    return pipe(
-      getUserThunk,
-      TE.fromThunk,
-      logValue("getUser"),
-      TE.chainEither(validateUserProfile)
-    );
-  };
+  getUserFp = (): TaskEither<GitLabAPIError, GitLabUserProfile> =>
+    this.run(getUser);
 
   // Example without reusable functions
-  getUserFpShort = (): TaskEither<Error, GitLabUserProfile> => {
+  getUserFpShort = (): TaskEither<GitLabAPIError, GitLabUserProfile> => {
     // Validate user profile
     const validateUserProfile = (
       response: object
-    ): Either<Error, GitLabUserProfile> => {
-      // TODO Better validation
-      return hasKey(response, "id")
-        ? right(response as GitLabUserProfile)
-        : left(Error("Invalid user profile"));
-    };
+    ): Either<GitLabAPIError, GitLabUserProfile> =>
+      pipe(
+        decodeUserProfile(response),
+        mapLeft(e => decode("/user", e, response))
+      );
 
     // Pipe computations
     return pipe(
       () => {
-        debugLog("getUser");
+        this.env.log("debug", "getUser");
         return this.api.Users.current();
       },
-      thunk => tryCatch(thunk, toError),
+      thunk => tryCatch(thunk, fromUnknown("/user")),
       map((obj: GetResponse) => {
-        debugLog("getUser", obj);
+        this.env.log("debug", "getUser", summarize(obj));
         return obj;
       }),
       chain(
@@ -155,263 +328,365 @@ class GitLabAPI {
     );
   };
 
-  getMergeRequestInfo = async (): Promise<GitLabMR> => {
-    debugLog(
-      `getMergeRequestInfo for repo: ${this.repoMetadata.repoSlug} pr: ${this.repoMetadata.pullRequestID}`
-    );
-    const mr: GitLabMR = (await this.api.MergeRequests.show(
-      this.repoMetadata.repoSlug,
-      parseInt(this.repoMetadata.pullRequestID, 10)
-    )) as GitLabMR;
-    debugLog("getMergeRequestInfo", mr);
-    return mr;
-  };
+  getMergeRequestInfo = (): Promise<GitLabMR> =>
+    toPromise(this.getMergeRequestInfoFp());
 
-  getMergeRequestInfoFp = (): TaskEither<Error, GitLabMR> => {
-    const getMergeRequestInfoThunk: Lazy<Promise<GetResponse>> = () => {
-      debugLog(
-        `getMergeRequestInfo for repo: ${this.repoMetadata.repoSlug} pr: ${this.repoMetadata.pullRequestID}`
-      );
-      return this.api.MergeRequests.show(
-        this.repoMetadata.repoSlug,
-        parseInt(this.repoMetadata.pullRequestID, 10)
-      );
-    };
+  getMergeRequestInfoFp = (): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(getMergeRequestInfo);
 
-    const validateMergeRequests = (response: object) => {
-      // TODO Add validation
-      return right(response as GitLabMR);
-    };
-    return pipe(
-      getMergeRequestInfoThunk,
-      TE.fromThunk,
-      logValue("getMergeRequestInfo"),
-      TE.chainEither(validateMergeRequests)
-    );
-  };
+  getMergeRequestChanges = (): Promise<GitLabMRChange[]> =>
+    toPromise(this.getMergeRequestChangesFp());
 
-  getMergeRequestChanges = async (): Promise<GitLabMRChange[]> => {
-    debugLog(
-      `getMergeRequestChanges for repo: ${this.repoMetadata.repoSlug} pr: ${this.repoMetadata.pullRequestID}`
-    );
-    const mr = (await this.api.MergeRequests.changes(
-      this.repoMetadata.repoSlug,
-      parseInt(this.repoMetadata.pullRequestID, 10)
-    )) as GitLabMRChanges;
+  getMergeRequestChangesFp = (): TaskEither<GitLabAPIError, GitLabMRChange[]> =>
+    this.run(getMergeRequestChanges);
 
-    debugLog("getMergeRequestChanges", mr.changes);
-    return mr.changes;
-  };
+  getMergeRequestCommits = (): Promise<GitLabMRCommit[]> =>
+    toPromise(this.getMergeRequestCommitsFp());
 
-  getMergeRequestChangesFp = (): TaskEither<Error, GitLabMRChange[]> => {
-    const getMergeRequestChangesThunk: Lazy<Promise<GetResponse>> = () => {
-      debugLog("getMergeRequestChanges");
-      return this.api.MergeRequests.changes(
-        this.repoMetadata.repoSlug,
-        parseInt(this.repoMetadata.pullRequestID, 10)
-      );
-    };
+  getMergeRequestCommitsFp = (): TaskEither<GitLabAPIError, GitLabMRCommit[]> =>
+    this.run(getMergeRequestCommits);
 
-    const validateMergeRequestChanges = (
-      obj: GetResponse
-    ): Either<Error, GitLabMRChanges> => {
-      return "changes" in obj
-        ? right(obj as GitLabMRChanges)
-        : left(Error("Invalid merge request"));
-    };
+  getMergeRequestNotes = (): Promise<GitLabNote[]> =>
+    toPromise(this.getMergeRequestNotesFp());
 
-    return pipe(
-      getMergeRequestChangesThunk,
-      TE.fromThunk,
-      TE.chainEither(validateMergeRequestChanges),
-      map((res: GitLabMRChanges) => res.changes)
-    );
-  };
+  getMergeRequestNotesFp = (): TaskEither<GitLabAPIError, GitLabNote[]> =>
+    this.run(getMergeRequestNotes);
 
-  // Skipped
-  getMergeRequestCommits = async (): Promise<GitLabMRCommit[]> => {
-    debugLog(
-      "getMergeRequestCommits",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID
-    );
-    const commits: GitLabMRCommit[] = (await this.api.MergeRequests.commits(
-      this.repoMetadata.repoSlug,
-      parseInt(this.repoMetadata.pullRequestID, 10)
-    )) as GitLabMRCommit[];
-    debugLog("getMergeRequestCommits", commits);
-    return commits;
-  };
+  getMergeRequestInlineNotes = (): Promise<GitLabInlineNote[]> =>
+    toPromise(this.getMergeRequestInlineNotesFp());
 
-  // Skipped
-  getMergeRequestNotes = async (): Promise<GitLabNote[]> => {
-    debugLog(
-      "getMergeRequestNotes",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID
-    );
-    const api = this.api.MergeRequestNotes;
-    const notes: GitLabNote[] = (await api.all(
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID
-    )) as GitLabNote[];
-    debugLog("getMergeRequestNotes", notes);
-    return notes;
-  };
+  getMergeRequestInlineNotesFp = (): TaskEither<
+    GitLabAPIError,
+    GitLabInlineNote[]
+  > => this.run(getMergeRequestInlineNotes);
 
-  getMergeRequestInlineNotes = async (): Promise<GitLabInlineNote[]> => {
-    debugLog("getMergeRequestInlineNotes");
-    const notes: GitLabNote[] = await this.getMergeRequestNotes();
-    const inlineNotes = notes.filter(
-      (note: GitLabNote) => note.type == "DiffNote"
-    ) as GitLabInlineNote[];
-    debugLog("getMergeRequestInlineNotes", inlineNotes);
-    return inlineNotes;
-  };
+  getMergeRequestDiscussions = (): Promise<GitLabDiscussion[]> =>
+    toPromise(this.getMergeRequestDiscussionsFp());
+
+  getMergeRequestDiscussionsFp = (): TaskEither<
+    GitLabAPIError,
+    GitLabDiscussion[]
+  > => this.run(getMergeRequestDiscussions);
 
-  createMergeRequestDiscussion = async (
+  createMergeRequestDiscussion = (
     content: string,
     position: GitLabDiscussionTextPosition
-  ): Promise<string> => {
-    debugLog(
-      "createMergeRequestDiscussion",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID,
-      content,
-      position
-    );
-    const api = this.api.MergeRequestDiscussions;
-
-    try {
-      const result = await api.create(
-        this.repoMetadata.repoSlug,
-        this.repoMetadata.pullRequestID,
-        content,
-        {
-          position: position,
-        }
-      );
-      debugLog("createMergeRequestDiscussion", result);
-      return result.toString();
-    } catch (e) {
-      debugLog("createMergeRequestDiscussion", e);
-      throw e;
-    }
-  };
+  ): Promise<GitLabDiscussion> =>
+    toPromise(this.createMergeRequestDiscussionFp(content, position));
 
-  createMergeRequestNote = async (body: string): Promise<GitLabNote> => {
-    debugLog(
-      "createMergeRequestNote",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID,
-      body
-    );
-    const api = this.api.MergeRequestNotes;
-
-    try {
-      debugLog("createMergeRequestNote");
-      const note: GitLabNote = (await api.create(
-        this.repoMetadata.repoSlug,
-        this.repoMetadata.pullRequestID,
-        body
-      )) as GitLabNote;
-      debugLog("createMergeRequestNote", note);
-      return note;
-    } catch (e) {
-      debugLog("createMergeRequestNote", e);
-    }
-
-    return Promise.reject();
-  };
+  createMergeRequestDiscussionFp = (
+    content: string,
+    position: GitLabDiscussionTextPosition
+  ): TaskEither<GitLabAPIError, GitLabDiscussion> =>
+    this.run(createMergeRequestDiscussion(content, position));
+
+  replyToDiscussion = (
+    discussionId: string,
+    body: string
+  ): Promise<GitLabDiscussionNote> =>
+    toPromise(this.replyToDiscussionFp(discussionId, body));
+
+  replyToDiscussionFp = (
+    discussionId: string,
+    body: string
+  ): TaskEither<GitLabAPIError, GitLabDiscussionNote> =>
+    this.run(replyToDiscussion(discussionId, body));
+
+  resolveDiscussion = (discussionId: string): Promise<GitLabDiscussion> =>
+    toPromise(this.resolveDiscussionFp(discussionId));
+
+  resolveDiscussionFp = (
+    discussionId: string
+  ): TaskEither<GitLabAPIError, GitLabDiscussion> =>
+    this.run(resolveDiscussion(discussionId));
+
+  unresolveDiscussion = (discussionId: string): Promise<GitLabDiscussion> =>
+    toPromise(this.unresolveDiscussionFp(discussionId));
+
+  unresolveDiscussionFp = (
+    discussionId: string
+  ): TaskEither<GitLabAPIError, GitLabDiscussion> =>
+    this.run(unresolveDiscussion(discussionId));
+
+  findBotDiscussions = (
+    path: string,
+    line?: number
+  ): Promise<GitLabDiscussion[]> =>
+    toPromise(this.findBotDiscussionsFp(path, line));
+
+  findBotDiscussionsFp = (
+    path: string,
+    line?: number
+  ): TaskEither<GitLabAPIError, GitLabDiscussion[]> =>
+    this.run(findBotDiscussions(path, line));
+
+  createMergeRequestNote = (body: string): Promise<GitLabNote> =>
+    toPromise(this.createMergeRequestNoteFp(body));
+
+  createMergeRequestNoteFp = (
+    body: string
+  ): TaskEither<GitLabAPIError, GitLabNote> =>
+    this.run(createMergeRequestNote(body));
+
+  updateMergeRequestNote = (id: number, body: string): Promise<GitLabNote> =>
+    toPromise(this.updateMergeRequestNoteFp(id, body));
 
-  updateMergeRequestNote = async (
+  updateMergeRequestNoteFp = (
     id: number,
     body: string
-  ): Promise<GitLabNote> => {
-    debugLog(
-      "updateMergeRequestNote",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID,
-      id,
-      body
-    );
-    const api = this.api.MergeRequestNotes;
-    try {
-      const note: GitLabNote = (await api.edit(
-        this.repoMetadata.repoSlug,
-        this.repoMetadata.pullRequestID,
-        id,
-        body
-      )) as GitLabNote;
-      debugLog("updateMergeRequestNote", note);
-      return note;
-    } catch (e) {
-      debugLog("updateMergeRequestNote", e);
-    }
-
-    return Promise.reject();
-  };
+  ): TaskEither<GitLabAPIError, GitLabNote> =>
+    this.run(updateMergeRequestNote(id, body));
 
   // note: deleting the _only_ note in a discussion also deletes the discussion \o/
-  deleteMergeRequestNote = async (id: number): Promise<boolean> => {
-    debugLog(
-      "deleteMergeRequestNote",
-      this.repoMetadata.repoSlug,
-      this.repoMetadata.pullRequestID,
-      id
-    );
-    const api = this.api.MergeRequestNotes;
+  deleteMergeRequestNote = (id: number): Promise<boolean> =>
+    this.deleteMergeRequestNoteFp(id)().then(isRight);
 
-    try {
-      await api.remove(
-        this.repoMetadata.repoSlug,
-        this.repoMetadata.pullRequestID,
-        id
-      );
-      debugLog("deleteMergeRequestNote", true);
-      return true;
-    } catch (e) {
-      debugLog("deleteMergeRequestNote", e);
-      return false;
-    }
+  deleteMergeRequestNoteFp = (id: number): TaskEither<GitLabAPIError, void> =>
+    this.run(deleteMergeRequestNote(id));
+
+  updateMergeRequest = (update: MergeRequestUpdate): Promise<GitLabMR> =>
+    toPromise(this.updateMergeRequestFp(update));
+
+  updateMergeRequestFp = (
+    update: MergeRequestUpdate
+  ): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(updateMergeRequest(update));
+
+  addLabels = (labels: string[]): Promise<GitLabMR> =>
+    toPromise(this.addLabelsFp(labels));
+
+  addLabelsFp = (labels: string[]): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(addLabels(labels));
+
+  removeLabels = (labels: string[]): Promise<GitLabMR> =>
+    toPromise(this.removeLabelsFp(labels));
+
+  removeLabelsFp = (labels: string[]): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(removeLabels(labels));
+
+  setAssignee = (userId: number | null): Promise<GitLabMR> =>
+    toPromise(this.setAssigneeFp(userId));
+
+  setAssigneeFp = (
+    userId: number | null
+  ): TaskEither<GitLabAPIError, GitLabMR> => this.run(setAssignee(userId));
+
+  setReviewers = (userIds: number[]): Promise<GitLabMR> =>
+    toPromise(this.setReviewersFp(userIds));
+
+  setReviewersFp = (userIds: number[]): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(setReviewers(userIds));
+
+  setWorkInProgress = (wip: boolean): Promise<GitLabMR> =>
+    toPromise(this.setWorkInProgressFp(wip));
+
+  setWorkInProgressFp = (wip: boolean): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(setWorkInProgress(wip));
+
+  approveMergeRequest = (sha?: string): Promise<GitLabMR> =>
+    toPromise(this.approveMergeRequestFp(sha));
+
+  approveMergeRequestFp = (
+    sha?: string
+  ): TaskEither<GitLabAPIError, GitLabMR> => this.run(approveMergeRequest(sha));
+
+  unapproveMergeRequest = (): Promise<GitLabMR> =>
+    toPromise(this.unapproveMergeRequestFp());
+
+  unapproveMergeRequestFp = (): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(unapproveMergeRequest);
+
+  mergeMergeRequest = (options: MergeOptions = {}): Promise<GitLabMR> =>
+    toPromise(this.mergeMergeRequestFp(options));
+
+  mergeMergeRequestFp = (
+    options: MergeOptions = {}
+  ): TaskEither<GitLabAPIError, GitLabMR> =>
+    this.run(mergeMergeRequest(options));
+
+  getMergeRequestPipelines = (): Promise<GitLabPipeline[]> =>
+    toPromise(this.getMergeRequestPipelinesFp());
+
+  getMergeRequestPipelinesFp = (): TaskEither<
+    GitLabAPIError,
+    GitLabPipeline[]
+  > => this.run(getMergeRequestPipelines);
+
+  getPipelineJobs = (pipelineId: number): Promise<GitLabJob[]> =>
+    toPromise(this.getPipelineJobsFp(pipelineId));
+
+  getPipelineJobsFp = (
+    pipelineId: number
+  ): TaskEither<GitLabAPIError, GitLabJob[]> =>
+    this.run(getPipelineJobs(pipelineId));
+
+  getJobTrace = (jobId: number): Promise<string> =>
+    toPromise(this.getJobTraceFp(jobId));
+
+  getJobTraceFp = (jobId: number): TaskEither<GitLabAPIError, string> =>
+    this.run(getJobTrace(jobId));
+
+  getJobArtifact = (jobId: number, path: string): Promise<string> =>
+    toPromise(this.getJobArtifactFp(jobId, path));
+
+  getJobArtifactFp = (
+    jobId: number,
+    path: string
+  ): TaskEither<GitLabAPIError, string> =>
+    this.run(getJobArtifact(jobId, path));
+
+  retryPipeline = (id: number): Promise<GitLabPipeline> =>
+    toPromise(this.retryPipelineFp(id));
+
+  retryPipelineFp = (id: number): TaskEither<GitLabAPIError, GitLabPipeline> =>
+    this.run(retryPipeline(id));
+
+  cancelPipeline = (id: number): Promise<GitLabPipeline> =>
+    toPromise(this.cancelPipelineFp(id));
+
+  cancelPipelineFp = (id: number): TaskEither<GitLabAPIError, GitLabPipeline> =>
+    this.run(cancelPipeline(id));
+
+  getJobFailures = (lines?: number): Promise<JobFailure[]> =>
+    toPromise(this.getJobFailuresFp(lines));
+
+  getJobFailuresFp = (
+    lines?: number
+  ): TaskEither<GitLabAPIError, JobFailure[]> =>
+    this.run(getJobFailures(lines));
+
+  getMergeRequestTimeline = (): Promise<TimelineEntry[]> =>
+    toPromise(this.getMergeRequestTimelineFp());
+
+  getMergeRequestTimelineFp = (): TaskEither<GitLabAPIError, TimelineEntry[]> =>
+    this.run(getMergeRequestTimeline);
+
+  getReviewReport = (
+    options?: Partial<ReviewAnalyticsOptions>
+  ): Promise<ReviewReport> => toPromise(this.getReviewReportFp(options));
+
+  getReviewReportFp = (
+    options?: Partial<ReviewAnalyticsOptions>
+  ): TaskEither<GitLabAPIError, ReviewReport> =>
+    this.run(getReviewReport(options));
+
+  getReviewReports = (
+    iids: number[],
+    options?: Partial<ReviewAnalyticsOptions>
+  ): Promise<ReviewReport[]> =>
+    toPromise(this.getReviewReportsFp(iids, options));
+
+  getReviewReportsFp = (
+    iids: number[],
+    options?: Partial<ReviewAnalyticsOptions>
+  ): TaskEither<GitLabAPIError, ReviewReport[]> =>
+    this.run(getReviewReports(iids, options));
+
+  /** Merge requests of the project, see `forEachMergeRequest` */
+  listMergeRequests = (
+    filter?: Partial<MergeRequestFilter>,
+    maxItems?: number
+  ): Promise<GitLabMRSummary[]> =>
+    toPromise(this.listMergeRequestsFp(filter, maxItems));
+
+  listMergeRequestsFp = (
+    filter?: Partial<MergeRequestFilter>,
+    maxItems?: number
+  ): TaskEither<GitLabAPIError, GitLabMRSummary[]> =>
+    this.run(listMergeRequests(filter, maxItems));
+
+  /** The adapter of another merge request of the project, sharing the client */
+  forMergeRequest = (iid: number): GitLabAPI => {
+    const metadata = { ...this.repoMetadata, pullRequestID: `${iid}` };
+    return new GitLabAPI(metadata, this.repoCredentials, {
+      ...this.env,
+      metadata,
+    });
   };
 
-  getFileContents = async (
+  /**
+   * Run `f` with the adapter of each merge request, at most `concurrency` at
+   * once. A failure is the result of its merge request, it doesn't stop the
+   * others. If `f` throws, the result is the error thrown.
+   */
+  forEachMergeRequestFp = <E, A>(
+    mergeRequests: GitLabMRSummary[],
+    f: (api: GitLabAPI, mergeRequest: GitLabMRSummary) => TaskEither<E, A>,
+    concurrency: number = 4
+  ): Task<Array<BatchResult<E | Error, A>>> => () =>
+    TE.traverseSettled<E | Error>(concurrency, unknownToError)(
+      (mergeRequest: GitLabMRSummary) =>
+        f(this.forMergeRequest(mergeRequest.iid), mergeRequest)
+    )(mergeRequests)().then(results =>
+      results.map((result, i) => ({ mergeRequest: mergeRequests[i], result }))
+    );
+
+  forEachMergeRequest = <E, A>(
+    mergeRequests: GitLabMRSummary[],
+    f: (api: GitLabAPI, mergeRequest: GitLabMRSummary) => TaskEither<E, A>,
+    concurrency?: number
+  ): Promise<Array<BatchResult<E | Error, A>>> =>
+    this.forEachMergeRequestFp(mergeRequests, f, concurrency)();
+
+  getFileContents = (
     path: string,
     slug?: string,
     ref?: string
-  ): Promise<string> => {
-    debugLog(
-      `getFileContents requested for path:${path}, slug:${slug}, ref:${ref}`
-    );
-    const api = this.api.RepositoryFiles;
-    const projectId = slug || this.repoMetadata.repoSlug;
-    // Use the current state of PR if no ref is passed
-    if (!ref) {
-      const mr: GitLabMR = await this.getMergeRequestInfo();
-      ref = mr.diff_refs.head_sha;
-    }
-
-    try {
-      debugLog("getFileContents", projectId, path, ref);
-      const response = await api.show(projectId, path, ref);
-      if (!hasKey(response, "content")) {
-        throw Error(
-          `Could not find content in response: ${JSON.stringify(response)}`
-        );
-      }
-      const result: string = Buffer.from(response.content, "base64").toString();
-      debugLog("getFileContents", result);
-      return result;
-    } catch (e) {
-      debugLog("getFileContents", e);
-      // GitHubAPI.fileContents returns "" when the file does not exist, keep it consistent across providers
-      if (e.response.status === 404) {
-        return "";
-      }
-      throw e;
-    }
-  };
+  ): Promise<string> => toPromise(this.getFileContentsFp(path, slug, ref));
+
+  getFileContentsFp = (
+    path: string,
+    slug?: string,
+    ref?: string
+  ): TaskEither<GitLabAPIError, string> =>
+    this.run(getFileContents(path, slug, ref));
+
+  /** Rejects with `NotFound` if the file doesn't exist, unlike `getFileContents` */
+  getRepositoryFile = (
+    path: string,
+    slug?: string,
+    ref?: string
+  ): Promise<RepositoryFile> =>
+    toPromise(this.getRepositoryFileFp(path, slug, ref));
+
+  getRepositoryFileFp = (
+    path: string,
+    slug?: string,
+    ref?: string
+  ): TaskEither<GitLabAPIError, RepositoryFile> =>
+    this.run(getRepositoryFile(path, slug, ref));
+
+  findRepositoryFileFp = (
+    path: string,
+    slug?: string,
+    ref?: string
+  ): TaskEither<GitLabAPIError, Option<RepositoryFile>> =>
+    this.run(findRepositoryFile(path, slug, ref));
+
+  getRepositoryTree = (
+    ref?: string,
+    options?: Partial<TreeOptions>
+  ): Promise<GitLabTreeEntry[]> =>
+    toPromise(this.getRepositoryTreeFp(ref, options));
+
+  getRepositoryTreeFp = (
+    ref?: string,
+    options?: Partial<TreeOptions>
+  ): TaskEither<GitLabAPIError, GitLabTreeEntry[]> =>
+    this.run(getRepositoryTree(ref, options));
+
+  getFileVersions = (path: string): Promise<FileVersions> =>
+    toPromise(this.getFileVersionsFp(path));
+
+  getFileVersionsFp = (
+    path: string
+  ): TaskEither<GitLabAPIError, FileVersions> =>
+    this.run(getFileVersions(path));
+
+  getGitLabDSL = (): Promise<GitLabDSL> => toPromise(this.getGitLabDSLFp());
+
+  getGitLabDSLFp = (): TaskEither<GitLabAPIError, GitLabDSL> =>
+    this.run(getGitLabDSL);
 }
 
 export default GitLabAPI;
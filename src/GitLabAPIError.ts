@@ -0,0 +1,291 @@
+import { DecodeError } from "./Decoder";
+
+/** Response headers with lower-cased names */
+export interface ResponseHeaders {
+  [name: string]: string;
+}
+
+interface HTTPErrorFields {
+  /** Request path relative to the API root, e.g. "/user" */
+  readonly endpoint: string;
+  readonly status: number;
+  readonly headers: ResponseHeaders;
+  /** Error message returned by GitLab, if any */
+  readonly body: unknown;
+}
+
+/** 401 or 403: missing, expired or insufficient token */
+export interface Unauthorized extends HTTPErrorFields {
+  readonly _tag: "Unauthorized";
+}
+
+/** 404 */
+export interface NotFound extends HTTPErrorFields {
+  readonly _tag: "NotFound";
+}
+
+/** 429 */
+export interface RateLimited extends HTTPErrorFields {
+  readonly _tag: "RateLimited";
+}
+
+/** Any other 4xx, e.g. 400 for an invalid discussion position */
+export interface BadRequest extends HTTPErrorFields {
+  readonly _tag: "BadRequest";
+}
+
+/** 5xx */
+export interface ServerError extends HTTPErrorFields {
+  readonly _tag: "ServerError";
+}
+
+/** The request failed without a response: DNS, connection reset, ... */
+export interface Network {
+  readonly _tag: "Network";
+  readonly endpoint: string;
+  readonly error: Error;
+}
+
+/** The response did not match the expected shape */
+export interface Decode {
+  readonly _tag: "Decode";
+  readonly endpoint: string;
+  readonly error: DecodeError;
+  readonly body: unknown;
+}
+
+/** The operation or request ran out of time, see Timeout.ts */
+export interface Timeout {
+  readonly _tag: "Timeout";
+  /** Name of the operation, or of the request for a deadline */
+  readonly operation: string;
+  readonly elapsedMs: number;
+}
+
+/** Cancelled through the `signal` of the environment */
+export interface Aborted {
+  readonly _tag: "Aborted";
+  readonly endpoint: string;
+}
+
+/** Why a merge was refused, read from the merge request after the refusal */
+export type MergeRefusal =
+  /** Closed or already merged */
+  | "not_open"
+  | "work_in_progress"
+  /** `merge_status` is "cannot_be_merged" */
+  | "conflict"
+  /** GitLab hasn't computed `merge_status` yet or is rechecking it */
+  | "unchecked"
+  /** The source branch moved past the `sha` of the merge options */
+  | "sha_mismatch"
+  /** GitLab reported a `merge_error` */
+  | "merge_error"
+  /** Any other reason, e.g. a required pipeline or unresolved threads */
+  | "not_allowed";
+
+/** GitLab refused to merge the merge request */
+export interface NotMergeable {
+  readonly _tag: "NotMergeable";
+  readonly endpoint: string;
+  readonly reason: MergeRefusal;
+  /** `merge_error` of the merge request, or GitLab's message */
+  readonly detail: string | null;
+}
+
+export type GitLabAPIError =
+  | Unauthorized
+  | NotFound
+  | RateLimited
+  | BadRequest
+  | ServerError
+  | Network
+  | Decode
+  | Timeout
+  | Aborted
+  | NotMergeable;
+
+export type HTTPError =
+  | Unauthorized
+  | NotFound
+  | RateLimited
+  | BadRequest
+  | ServerError;
+
+export const network = (endpoint: string, error: Error): GitLabAPIError => ({
+  _tag: "Network",
+  endpoint,
+  error,
+});
+
+export const decode = (
+  endpoint: string,
+  error: DecodeError,
+  body: unknown
+): GitLabAPIError => ({ _tag: "Decode", endpoint, error, body });
+
+export const timeout = (
+  operation: string,
+  elapsedMs: number
+): GitLabAPIError => ({ _tag: "Timeout", operation, elapsedMs });
+
+export const aborted = (endpoint: string): GitLabAPIError => ({
+  _tag: "Aborted",
+  endpoint,
+});
+
+export const notMergeable = (
+  endpoint: string,
+  reason: MergeRefusal,
+  detail: string | null = null
+): GitLabAPIError => ({ _tag: "NotMergeable", endpoint, reason, detail });
+
+export const fromStatus = (
+  endpoint: string,
+  status: number,
+  headers: ResponseHeaders = {},
+  body: unknown = undefined
+): GitLabAPIError => {
+  const fields = { endpoint, status, headers, body };
+  if (status === 401 || status === 403) {
+    return { _tag: "Unauthorized", ...fields };
+  }
+  if (status === 404) {
+    return { _tag: "NotFound", ...fields };
+  }
+  if (status === 429) {
+    return { _tag: "RateLimited", ...fields };
+  }
+  if (status >= 500) {
+    return { _tag: "ServerError", ...fields };
+  }
+  return { _tag: "BadRequest", ...fields };
+};
+
+const headersToObject = (headers: any): ResponseHeaders => {
+  const result: ResponseHeaders = {};
+  if (headers && typeof headers.forEach === "function") {
+    // Fetch API `Headers`
+    headers.forEach((value: string, name: string) => {
+      result[name.toLowerCase()] = value;
+    });
+  } else if (headers && typeof headers === "object") {
+    Object.keys(headers).forEach(name => {
+      result[name.toLowerCase()] = String(headers[name]);
+    });
+  }
+  return result;
+};
+
+/**
+ * Classify a rejection from the GitLab SDK. HTTP errors carry the fetch
+ * `response`, and the SDK stores GitLab's error message in `description`.
+ */
+export const fromUnknown = (endpoint: string) => (
+  e: unknown
+): GitLabAPIError => {
+  const error: any = e;
+  if (error && error.name === "AbortError") {
+    return aborted(endpoint);
+  }
+  if (error && error.response && typeof error.response.status === "number") {
+    return fromStatus(
+      endpoint,
+      error.response.status,
+      headersToObject(error.response.headers),
+      error.description
+    );
+  }
+  return network(endpoint, e instanceof Error ? e : new Error(String(e)));
+};
+
+export const isHTTPError = (e: GitLabAPIError): e is HTTPError =>
+  e._tag === "Unauthorized" ||
+  e._tag === "NotFound" ||
+  e._tag === "RateLimited" ||
+  e._tag === "BadRequest" ||
+  e._tag === "ServerError";
+
+export const isNotFound = (e: GitLabAPIError): e is NotFound =>
+  e._tag === "NotFound";
+
+/**
+ * Transient failures worth retrying: rate limits, gateway errors and
+ * dropped connections.
+ */
+export const isRetryable = (e: GitLabAPIError): boolean =>
+  e._tag === "RateLimited" ||
+  e._tag === "Network" ||
+  (e._tag === "ServerError" && [500, 502, 503, 504].indexOf(e.status) !== -1);
+
+/**
+ * Delay requested by GitLab in the `Retry-After` (seconds or HTTP date) or
+ * `RateLimit-Reset` (epoch seconds) headers.
+ * @param now Current time in milliseconds
+ */
+export const retryAfterMs = (
+  e: GitLabAPIError,
+  now: number
+): number | undefined => {
+  if (!isHTTPError(e)) {
+    return undefined;
+  }
+  const retryAfter = e.headers["retry-after"];
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return date - now;
+    }
+  }
+  const reset = Number(e.headers["ratelimit-reset"]);
+  // Only honoured for 429s: GitLab sends the header on every response
+  return e._tag === "RateLimited" && !isNaN(reset) && reset > 0
+    ? reset * 1000 - now
+    : undefined;
+};
+
+type Tag = GitLabAPIError["_tag"];
+
+export type Cases<R> = {
+  [T in Tag]: (e: Extract<GitLabAPIError, { _tag: T }>) => R;
+};
+
+/**
+ * Exhaustive pattern match on the error cases.
+ */
+export const fold = <R>(cases: Cases<R>) => (e: GitLabAPIError): R =>
+  (cases[e._tag] as (e: GitLabAPIError) => R)(e);
+
+/**
+ * Human-readable one-line description.
+ */
+export const message: (e: GitLabAPIError) => string = fold<string>({
+  Unauthorized: e => `${e.endpoint}: unauthorized (${e.status})`,
+  NotFound: e => `${e.endpoint}: not found`,
+  RateLimited: e => `${e.endpoint}: rate limited`,
+  BadRequest: e =>
+    `${e.endpoint}: bad request (${e.status})${
+      e.body ? `: ${JSON.stringify(e.body)}` : ""
+    }`,
+  ServerError: e => `${e.endpoint}: server error (${e.status})`,
+  Network: e => `${e.endpoint}: ${e.error.message}`,
+  Decode: e => `${e.endpoint}: ${e.error.message}`,
+  Timeout: e => `${e.operation}: timed out after ${e.elapsedMs}ms`,
+  Aborted: e => `${e.endpoint}: aborted`,
+  NotMergeable: e =>
+    `${e.endpoint}: cannot be merged (${e.reason})${
+      e.detail ? `: ${e.detail}` : ""
+    }`,
+});
+
+/**
+ * Convert to a plain `Error` for callers that throw.
+ */
+export const toError = (e: GitLabAPIError): Error =>
+  e._tag === "Network" || e._tag === "Decode"
+    ? e.error
+    : Object.assign(new Error(message(e)), { gitlab: e });
@@ -0,0 +1,545 @@
+// GitLab operations as programs over an injectable environment.
+// A program is only a description: run it with `program(env)()`.
+import { pipe } from "fp-ts/lib/pipeable";
+import { map as mapEither } from "fp-ts/lib/Either";
+import { flow } from "fp-ts/lib/function";
+import { chain, map, right as rightRTE } from "fp-ts/lib/ReaderTaskEither";
+import {
+  fold as foldTE,
+  left as leftTE,
+  right as rightTE,
+} from "fp-ts/lib/TaskEither";
+import {
+  GitLabDiscussion,
+  GitLabDiscussionNote,
+  GitLabDiscussionTextPosition,
+  GitLabInlineNote,
+  GitLabMR,
+  GitLabMRChange,
+  GitLabMRCommit,
+  GitLabNote,
+  GitLabUserProfile,
+} from "./GitLabDSL";
+import {
+  decodeDiscussion,
+  decodeDiscussionNote,
+  decodeInlineNotes,
+  decodeMergeRequest,
+  decodeMergeRequestChanges,
+  decodeNote,
+  decodeRepositoryFile,
+  decodeUserProfile,
+  GitLabDiscussionDecoder,
+  GitLabMRCommitDecoder,
+  GitLabNoteDecoder,
+} from "./GitLabDecoders";
+import { MergeRefusal, notMergeable } from "./GitLabAPIError";
+import TE from "./TaskEitherUtils";
+import {
+  decodeResponse,
+  fileEndpoint,
+  GitLabEnv,
+  GitLabOp,
+  mergeRequestEndpoint,
+  mergeRequestIID,
+  rawPost,
+  rawPut,
+  request,
+  withRetry,
+} from "./GitLabEnv";
+import { cached, invalidating } from "./RequestCache";
+import { collectPages, Page, paginate, PaginationOptions } from "./Pagination";
+
+export {
+  createEnv,
+  defaultRetryPolicy,
+  Gitlab,
+  GitLabEnv,
+  GitLabOp,
+  Logger,
+  withMetadata,
+  withRetry,
+} from "./GitLabEnv";
+
+const fromMergeRequest = (env: GitLabEnv) => mergeRequestEndpoint(env.metadata);
+const fromNotes = (env: GitLabEnv) => `${fromMergeRequest(env)}/notes`;
+const fromDiscussions = (env: GitLabEnv) =>
+  `${fromMergeRequest(env)}/discussions`;
+
+export const getUser: GitLabOp<GitLabUserProfile> = pipe(
+  request("getUser", () => "/user", env => env.api.Users.current()),
+  decodeResponse(() => "/user", decodeUserProfile),
+  withRetry,
+  cached(() => "/user", "immutable")
+);
+
+// Not cached, for the state of the merge request after a write
+const showMergeRequest: GitLabOp<GitLabMR> = pipe(
+  request("getMergeRequestInfo", fromMergeRequest, ({ api, metadata }) =>
+    api.MergeRequests.show(metadata.repoSlug, mergeRequestIID(metadata))
+  ),
+  decodeResponse(fromMergeRequest, decodeMergeRequest),
+  withRetry
+);
+
+export const getMergeRequestInfo: GitLabOp<GitLabMR> = pipe(
+  showMergeRequest,
+  cached(fromMergeRequest, "mutable")
+);
+
+const fromChanges = (env: GitLabEnv) => `${fromMergeRequest(env)}/changes`;
+
+export const getMergeRequestChanges: GitLabOp<GitLabMRChange[]> = pipe(
+  request("getMergeRequestChanges", fromChanges, ({ api, metadata }) =>
+    api.MergeRequests.changes(metadata.repoSlug, mergeRequestIID(metadata))
+  ),
+  decodeResponse(fromChanges, decodeMergeRequestChanges),
+  map(mr => mr.changes),
+  withRetry,
+  cached(fromChanges, "mutable")
+);
+
+const fromCommits = (env: GitLabEnv) => `${fromMergeRequest(env)}/commits`;
+
+export const getMergeRequestCommitPages = (
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabMRCommit>> =>
+  paginate(
+    "getMergeRequestCommits",
+    fromCommits,
+    GitLabMRCommitDecoder,
+    options
+  );
+
+export const getMergeRequestCommits: GitLabOp<GitLabMRCommit[]> = pipe(
+  getMergeRequestCommitPages(),
+  collectPages(),
+  cached(fromCommits, "immutable")
+);
+
+export const getMergeRequestNotePages = (
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabNote>> =>
+  paginate("getMergeRequestNotes", fromNotes, GitLabNoteDecoder, options);
+
+export const getMergeRequestNotes: GitLabOp<GitLabNote[]> = pipe(
+  getMergeRequestNotePages(),
+  collectPages(),
+  cached(fromNotes, "mutable")
+);
+
+export const getMergeRequestDiscussionPages = (
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabDiscussion>> =>
+  paginate(
+    "getMergeRequestDiscussions",
+    fromDiscussions,
+    GitLabDiscussionDecoder,
+    options
+  );
+
+export const getMergeRequestDiscussions: GitLabOp<GitLabDiscussion[]> = pipe(
+  getMergeRequestDiscussionPages(),
+  collectPages(),
+  cached(fromDiscussions, "mutable")
+);
+
+export const getMergeRequestInlineNotes: GitLabOp<GitLabInlineNote[]> = pipe(
+  getMergeRequestNotes,
+  map(notes => notes.filter(note => note.type === "DiffNote")),
+  decodeResponse(fromNotes, decodeInlineNotes)
+);
+
+// Notes also show up in the discussions and in the merge request's note count
+const invalidatingNotes = invalidating(
+  fromMergeRequest,
+  fromNotes,
+  fromDiscussions
+);
+
+export const createMergeRequestNote = (body: string): GitLabOp<GitLabNote> =>
+  pipe(
+    request("createMergeRequestNote", fromNotes, ({ api, metadata }) =>
+      api.MergeRequestNotes.create(
+        metadata.repoSlug,
+        metadata.pullRequestID,
+        body
+      )
+    ),
+    decodeResponse(fromNotes, decodeNote),
+    invalidatingNotes
+  );
+
+export const updateMergeRequestNote = (
+  id: number,
+  body: string
+): GitLabOp<GitLabNote> => {
+  const endpoint = (env: GitLabEnv) => `${fromNotes(env)}/${id}`;
+  return pipe(
+    request("updateMergeRequestNote", endpoint, ({ api, metadata }) =>
+      api.MergeRequestNotes.edit(
+        metadata.repoSlug,
+        metadata.pullRequestID,
+        id,
+        body
+      )
+    ),
+    decodeResponse(endpoint, decodeNote),
+    // PUT is idempotent
+    withRetry,
+    invalidatingNotes
+  );
+};
+
+// note: deleting the _only_ note in a discussion also deletes the discussion \o/
+export const deleteMergeRequestNote = (id: number): GitLabOp<void> =>
+  pipe(
+    request(
+      "deleteMergeRequestNote",
+      env => `${fromNotes(env)}/${id}`,
+      ({ api, metadata }) =>
+        api.MergeRequestNotes.remove(
+          metadata.repoSlug,
+          metadata.pullRequestID,
+          id
+        )
+    ),
+    map(() => undefined),
+    invalidatingNotes
+  );
+
+/**
+ * Start a thread on a line of the diff. Use `CommentPosition.ts` to build a
+ * position GitLab accepts.
+ */
+export const createMergeRequestDiscussion = (
+  body: string,
+  position: GitLabDiscussionTextPosition
+): GitLabOp<GitLabDiscussion> =>
+  pipe(
+    request(
+      "createMergeRequestDiscussion",
+      fromDiscussions,
+      ({ api, metadata }) =>
+        api.MergeRequestDiscussions.create(
+          metadata.repoSlug,
+          metadata.pullRequestID,
+          body,
+          { position }
+        )
+    ),
+    decodeResponse(fromDiscussions, decodeDiscussion),
+    invalidatingNotes
+  );
+
+const fromDiscussion = (id: string) => (env: GitLabEnv) =>
+  `${fromDiscussions(env)}/${id}`;
+
+/**
+ * Add a note to a thread.
+ * @param discussionId Id of the discussion, not of one of its notes
+ */
+export const replyToDiscussion = (
+  discussionId: string,
+  body: string
+): GitLabOp<GitLabDiscussionNote> => {
+  const endpoint = (env: GitLabEnv) =>
+    `${fromDiscussion(discussionId)(env)}/notes`;
+  // The SDK's `addNote` requires the id of a note that GitLab ignores
+  return pipe(
+    rawPost("replyToDiscussion", endpoint, { body }),
+    map(response => response.body),
+    decodeResponse(endpoint, decodeDiscussionNote),
+    invalidatingNotes
+  );
+};
+
+const setResolved = (name: string, resolved: boolean) => (
+  discussionId: string
+): GitLabOp<GitLabDiscussion> => {
+  const endpoint = fromDiscussion(discussionId);
+  return pipe(
+    rawPut(name, endpoint, { resolved }),
+    map(response => response.body),
+    decodeResponse(endpoint, decodeDiscussion),
+    // PUT is idempotent
+    withRetry,
+    invalidatingNotes
+  );
+};
+
+/** Resolve every note of a thread, as the "Resolve thread" button does */
+export const resolveDiscussion = setResolved("resolveDiscussion", true);
+
+export const unresolveDiscussion = setResolved("unresolveDiscussion", false);
+
+// A write to the merge request changes every response about it
+const invalidatingMergeRequest = invalidating(fromMergeRequest);
+
+/** Fields of a merge request update, named as in the GitLab API */
+export interface MergeRequestUpdate {
+  title?: string;
+  description?: string;
+  /** Replaces every label */
+  labels?: string[];
+  add_labels?: string[];
+  remove_labels?: string[];
+  /** 0 unassigns */
+  assignee_id?: number;
+  assignee_ids?: number[];
+  /** An empty array removes every reviewer */
+  reviewer_ids?: number[];
+  state_event?: "close" | "reopen";
+  remove_source_branch?: boolean;
+  squash?: boolean;
+  discussion_locked?: boolean;
+}
+
+// GitLab takes labels as comma-separated lists
+const commaSeparated = (names?: string[]) =>
+  names === undefined ? undefined : names.join(",");
+
+const toEditOptions = ({
+  labels,
+  add_labels,
+  remove_labels,
+  ...rest
+}: MergeRequestUpdate) => ({
+  ...rest,
+  labels: commaSeparated(labels),
+  add_labels: commaSeparated(add_labels),
+  remove_labels: commaSeparated(remove_labels),
+});
+
+/**
+ * Change fields of the merge request, and get it as updated.
+ */
+export const updateMergeRequest = (
+  update: MergeRequestUpdate
+): GitLabOp<GitLabMR> =>
+  pipe(
+    request("updateMergeRequest", fromMergeRequest, ({ api, metadata }) =>
+      api.MergeRequests.edit(
+        metadata.repoSlug,
+        mergeRequestIID(metadata),
+        toEditOptions(update)
+      )
+    ),
+    decodeResponse(fromMergeRequest, decodeMergeRequest),
+    // PUT is idempotent, adding or removing a label too
+    withRetry,
+    invalidatingMergeRequest
+  );
+
+export const addLabels = (labels: string[]): GitLabOp<GitLabMR> =>
+  updateMergeRequest({ add_labels: labels });
+
+export const removeLabels = (labels: string[]): GitLabOp<GitLabMR> =>
+  updateMergeRequest({ remove_labels: labels });
+
+/** @param userId `null` unassigns */
+export const setAssignee = (userId: number | null): GitLabOp<GitLabMR> =>
+  updateMergeRequest({ assignee_id: userId === null ? 0 : userId });
+
+export const setReviewers = (userIds: number[]): GitLabOp<GitLabMR> =>
+  updateMergeRequest({ reviewer_ids: userIds });
+
+const wipPrefix = /^\s*(\[wip\]|wip:|\[draft\]|\(draft\)|draft:|draft\s-)\s*/i;
+
+/** The title with or without the "WIP: " prefix GitLab looks for */
+export const withWIPTitle = (title: string, wip: boolean): string => {
+  const stripped = title.replace(wipPrefix, "");
+  return wip ? `WIP: ${stripped}` : stripped;
+};
+
+/**
+ * Mark the merge request as a work in progress, or as ready, through the
+ * prefix of its title.
+ */
+export const setWorkInProgress = (wip: boolean): GitLabOp<GitLabMR> =>
+  pipe(
+    showMergeRequest,
+    chain(mr =>
+      mr.work_in_progress === wip
+        ? rightRTE(mr)
+        : updateMergeRequest({ title: withWIPTitle(mr.title, wip) })
+    )
+  );
+
+const fromApprove = (env: GitLabEnv) => `${fromMergeRequest(env)}/approve`;
+const fromUnapprove = (env: GitLabEnv) => `${fromMergeRequest(env)}/unapprove`;
+
+/**
+ * Approve as the user of the API token. GitLab answers with the approvals,
+ * so the merge request is fetched again.
+ * @param sha Only approve if the head of the source branch is this commit
+ */
+export const approveMergeRequest = (sha?: string): GitLabOp<GitLabMR> =>
+  pipe(
+    request("approveMergeRequest", fromApprove, ({ api, metadata }) =>
+      api.MergeRequests.approve(
+        metadata.repoSlug,
+        mergeRequestIID(metadata),
+        sha === undefined ? {} : { sha }
+      )
+    ),
+    invalidatingMergeRequest,
+    chain(() => showMergeRequest)
+  );
+
+export const unapproveMergeRequest: GitLabOp<GitLabMR> = pipe(
+  // The SDK's `unapprove` posts to /approve
+  rawPost("unapproveMergeRequest", fromUnapprove),
+  invalidatingMergeRequest,
+  chain(() => showMergeRequest)
+);
+
+/** Options of a merge, named as in the GitLab API */
+export interface MergeOptions {
+  merge_commit_message?: string;
+  squash_commit_message?: string;
+  squash?: boolean;
+  should_remove_source_branch?: boolean;
+  /** Merge once the pipeline succeeds instead of now */
+  merge_when_pipeline_succeeds?: boolean;
+  /** Only merge if the head of the source branch is this commit */
+  sha?: string;
+}
+
+/**
+ * Why GitLab refuses to merge the merge request, judging from its state.
+ */
+export const mergeRefusal = (mr: GitLabMR): MergeRefusal =>
+  mr.state !== "opened"
+    ? "not_open"
+    : mr.work_in_progress
+    ? "work_in_progress"
+    : mr.merge_status === "cannot_be_merged"
+    ? "conflict"
+    : mr.merge_status === "unchecked" ||
+      mr.merge_status === "checking" ||
+      mr.merge_status === "cannot_be_merged_recheck"
+    ? "unchecked"
+    : mr.merge_error
+    ? "merge_error"
+    : "not_allowed";
+
+const fromMerge = (env: GitLabEnv) => `${fromMergeRequest(env)}/merge`;
+
+const detailOf = (body: unknown): string | null =>
+  typeof body === "string" && body !== "" ? body : null;
+
+/**
+ * Turn the refusals of GitLab into `NotMergeable`: 405 and 406 are explained
+ * by the state of the merge request, 409 is a SHA mismatch.
+ */
+const explainRefusal = <A>(op: GitLabOp<A>): GitLabOp<A> => env =>
+  pipe(
+    op(env),
+    TE.orElseOn("BadRequest", e => {
+      if (e.status === 409) {
+        return leftTE(
+          notMergeable(e.endpoint, "sha_mismatch", detailOf(e.body))
+        );
+      }
+      if (e.status !== 405 && e.status !== 406) {
+        return leftTE(e);
+      }
+      return pipe(
+        showMergeRequest(env),
+        foldTE(
+          () => leftTE(e),
+          mr =>
+            leftTE(
+              notMergeable(
+                e.endpoint,
+                mergeRefusal(mr),
+                mr.merge_error || detailOf(e.body)
+              )
+            )
+        )
+      );
+    })
+  );
+
+/**
+ * Merge now, or when the pipeline succeeds with
+ * `merge_when_pipeline_succeeds`. Fails with `NotMergeable` when GitLab
+ * refuses, or reports a `merge_error`.
+ */
+export const mergeMergeRequest = (
+  options: MergeOptions = {}
+): GitLabOp<GitLabMR> =>
+  pipe(
+    request("mergeMergeRequest", fromMerge, ({ api, metadata }) =>
+      api.MergeRequests.accept(
+        metadata.repoSlug,
+        mergeRequestIID(metadata),
+        options
+      )
+    ),
+    decodeResponse(fromMerge, decodeMergeRequest),
+    // GitLab may accept the merge, then fail it
+    chain(mr => env =>
+      mr.state !== "merged" && mr.merge_error
+        ? leftTE(notMergeable(fromMerge(env), "merge_error", mr.merge_error))
+        : rightTE(mr)
+    ),
+    explainRefusal,
+    invalidatingMergeRequest
+  );
+
+/** A commit SHA, as opposed to a branch or tag name */
+export const isSHA = (ref: string): boolean => /^[0-9a-f]{40}$/i.test(ref);
+
+const decodeFileContent = flow(
+  decodeRepositoryFile,
+  mapEither(file => Buffer.from(file.content, "base64").toString())
+);
+
+/**
+ * Contents of a file, or "" if the file does not exist.
+ * @param path Path of the file in the repository
+ * @param slug Project, defaults to the project of the merge request
+ * @param ref Branch or SHA, defaults to the head of the merge request
+ */
+export const getFileContents = (
+  path: string,
+  slug?: string,
+  ref?: string
+): GitLabOp<string> => {
+  const projectId = (env: GitLabEnv) => slug || env.metadata.repoSlug;
+  const endpoint = (env: GitLabEnv) => fileEndpoint(projectId(env), path);
+
+  // Use the current state of PR if no ref is passed
+  const getRef: GitLabOp<string> = ref
+    ? rightRTE(ref)
+    : pipe(
+        getMergeRequestInfo,
+        map(mr => mr.diff_refs.head_sha)
+      );
+
+  return pipe(
+    getRef,
+    chain(ref =>
+      pipe(
+        request("getFileContents", endpoint, env =>
+          env.api.RepositoryFiles.show(projectId(env), path, ref)
+        ),
+        decodeResponse(endpoint, decodeFileContent),
+        withRetry,
+        op => (env: GitLabEnv) =>
+          pipe(
+            op(env),
+            // GitHubAPI.fileContents returns "" when the file does not exist, keep it consistent across providers
+            TE.orElseOn("NotFound", () => rightTE(""))
+          ),
+        // A branch moves, a SHA doesn't
+        cached(
+          env => `${endpoint(env)}?ref=${ref}`,
+          isSHA(ref) ? "immutable" : "mutable"
+        )
+      )
+    )
+  );
+};
@@ -11,6 +11,8 @@ export interface GitLabJSONDSL {
   metadata: RepoMetaData;
   mr: GitLabMR;
   commits: GitLabMRCommit[];
+  changes: GitLabMRChange[];
+  notes: GitLabNote[];
 }
 
 // danger.gitlab
@@ -31,7 +33,7 @@ export interface GitLabUser {
   id: number;
   name: string;
   username: string;
-  state: "active"; // XXX: other states?
+  state: "active" | "blocked";
   avatar_url: string | null;
   web_url: string;
 }
@@ -53,7 +55,7 @@ export interface GitLabUserProfile extends GitLabUser {
   color_scheme_id: number;
   projects_limit: number;
   current_sign_in_at: string;
-  identities: [{ provider: string; extern_uid: string }];
+  identities: Array<{ provider: string; extern_uid: string }>;
   can_create_group: boolean;
   can_create_project: boolean;
   two_factor_enabled: boolean;
@@ -78,7 +80,7 @@ export interface GitLabMRBase {
   description: string;
 
   /**  */
-  state: "closed" | "open" | "locked" | "merged";
+  state: "opened" | "closed" | "locked" | "merged";
 
   /**  */
   created_at: string;
@@ -95,7 +97,11 @@ export interface GitLabMRBase {
   user: {
     can_merge: boolean;
   };
-  assignee: GitLabUser;
+  assignee: GitLabUser | null;
+  /** Only set by GitLab 11.x and later */
+  assignees?: GitLabUser[];
+  /** Only set by GitLab 13.7 and later */
+  reviewers?: GitLabUser[];
   source_project_id: number;
   target_project_id: number;
   labels: string[];
@@ -103,62 +109,144 @@ export interface GitLabMRBase {
   milestone: {
     id: number;
     iid: number;
-    project_id: number;
+    /** Only set for project milestones */
+    project_id?: number;
+    /** Only set for group milestones */
+    group_id?: number;
     title: string;
     description: string;
-    state: "closed"; // XXX: other states?
+    state: "active" | "closed";
     created_at: string;
     updated_at: string;
-    due_date: string;
-    start_date: string;
+    due_date: string | null;
+    start_date: string | null;
     web_url: string;
-  };
+  } | null;
   merge_when_pipeline_succeeds: boolean;
-  merge_status: "can_be_merged"; // XXX: other statuses?
-  merge_error: null | null;
+  /** "checking" and "*_recheck" while GitLab recomputes it */
+  merge_status:
+    | "can_be_merged"
+    | "cannot_be_merged"
+    | "unchecked"
+    | "checking"
+    | "cannot_be_merged_recheck";
+  merge_error: string | null;
   sha: string;
   merge_commit_sha: string | null;
   user_notes_count: number;
-  discussion_locked: null | null;
-  should_remove_source_branch: boolean;
+  discussion_locked: boolean | null;
+  should_remove_source_branch: boolean | null;
   force_remove_source_branch: boolean;
-  allow_collaboration: boolean;
-  allow_maintainer_to_push: boolean;
+  /** Only set for merge requests from forks */
+  allow_collaboration?: boolean;
+  /** Only set for merge requests from forks */
+  allow_maintainer_to_push?: boolean;
   web_url: string;
   time_stats: {
     time_estimate: number;
     total_time_spent: number;
-    human_time_estimate: number | null;
-    human_total_time_spent: number | null;
+    human_time_estimate: string | null;
+    human_total_time_spent: string | null;
+  };
+}
+
+export type GitLabPipelineStatus =
+  | "created"
+  | "waiting_for_resource"
+  | "preparing"
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "canceled"
+  | "skipped"
+  | "manual"
+  | "scheduled";
+
+/** A pipeline as listed, e.g. in the pipelines of a merge request */
+export interface GitLabPipeline {
+  id: number;
+  sha: string;
+  ref: string;
+  status: GitLabPipelineStatus;
+  web_url: string;
+  /** Only set by GitLab 12.x and later */
+  created_at?: string;
+  /** Only set by GitLab 12.x and later */
+  updated_at?: string;
+}
+
+/** Jobs go through the same states as pipelines */
+export type GitLabJobStatus = GitLabPipelineStatus;
+
+export interface GitLabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: GitLabJobStatus;
+  ref: string;
+  tag: boolean;
+  /** A failure doesn't fail the pipeline */
+  allow_failure: boolean;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  /** Seconds */
+  duration: number | null;
+  web_url: string;
+  pipeline: {
+    id: number;
+    sha: string;
+    ref: string;
+    status: GitLabPipelineStatus;
   };
+  /** Only set for jobs with artifacts */
+  artifacts_file?: {
+    filename: string;
+    size: number;
+  };
+  /** Only set for failed jobs, e.g. "script_failure" */
+  failure_reason?: string;
+}
+
+/**
+ * A merge request as listed by the merge requests endpoint of a project,
+ * without the fields that GitLab only computes for a single merge request.
+ */
+export interface GitLabMRSummary
+  extends Omit<GitLabMRBase, "user" | "merge_error"> {
+  merged_at: string | null;
+  closed_at: string | null;
 }
 
 export interface GitLabMR extends GitLabMRBase {
   squash: boolean;
   subscribed: boolean;
   changes_count: string;
-  merged_by: GitLabUser;
-  merged_at: string;
+  merged_by: GitLabUser | null;
+  merged_at: string | null;
   closed_by: GitLabUser | null;
   closed_at: string | null;
-  latest_build_started_at: string;
-  latest_build_finished_at: string;
+  latest_build_started_at: string | null;
+  latest_build_finished_at: string | null;
   first_deployed_to_production_at: string | null;
   pipeline: {
     id: number;
     sha: string;
     ref: string;
-    status: "success"; // XXX: other statuses?
+    status: GitLabPipelineStatus;
     web_url: string;
-  };
+  } | null;
   diff_refs: {
     base_sha: string;
     head_sha: string;
     start_sha: string;
   };
-  diverged_commits_count: number;
-  rebase_in_progress: boolean;
-  approvals_before_merge: null | null;
+  /** Only set when requested with `include_diverged_commits_count` */
+  diverged_commits_count?: number;
+  /** Only set when requested with `include_rebase_in_progress` */
+  rebase_in_progress?: boolean;
+  approvals_before_merge: number | null;
 }
 
 export interface GitLabMRChange {
@@ -172,6 +260,17 @@ export interface GitLabMRChange {
   deleted_file: boolean;
 }
 
+/** An entry of a repository tree */
+export interface GitLabTreeEntry {
+  /** SHA of the blob or tree */
+  id: string;
+  name: string;
+  /** "commit" for a submodule */
+  type: "blob" | "tree" | "commit";
+  path: string;
+  mode: string;
+}
+
 export interface GitLabMRChanges extends GitLabMRBase {
   changes: GitLabMRChange[];
 }
@@ -180,7 +279,7 @@ export interface GitLabNote {
   id: number;
   type: "DiffNote" | "DiscussionNote" | null; // XXX: other types? null means "normal comment"
   body: string;
-  attachment: null; // XXX: what can an attachment be?
+  attachment: string | null;
   author: GitLabUser;
   created_at: string;
   updated_at: string;
@@ -197,8 +296,10 @@ export interface GitLabDiscussionTextPosition {
   start_sha: string;
   head_sha: string;
   new_path: string;
-  new_line: number;
+  /** null for a removed line */
+  new_line: number | null;
   old_path: string;
+  /** null for an added line */
   old_line: number | null;
 }
 
@@ -211,13 +312,30 @@ export interface GitLabInlineNote extends GitLabNote {
     new_path: string;
     position_type: "text"; // XXX: other types?
     old_line: number | null;
-    new_line: number;
+    new_line: number | null;
   };
   resolvable: boolean;
   resolved: boolean;
   resolved_by: GitLabUser | null;
 }
 
+/**
+ * A note as listed in a discussion. Notes of a thread have a resolution, diff
+ * notes a position.
+ */
+export interface GitLabDiscussionNote extends GitLabNote {
+  resolved?: boolean;
+  resolved_by?: GitLabUser | null;
+  position?: GitLabInlineNote["position"];
+}
+
+export interface GitLabDiscussion {
+  id: string;
+  /** A plain comment rather than a thread */
+  individual_note: boolean;
+  notes: GitLabDiscussionNote[];
+}
+
 export interface GitLabMRCommit {
   id: string;
   short_id: string;
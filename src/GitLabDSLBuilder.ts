@@ -0,0 +1,77 @@
+// Builds the `danger.gitlab` object of GitLabDSL.ts from the API, and
+// round-trips its JSON part so a run captured in CI can be replayed locally.
+import { sequenceS } from "fp-ts/lib/Apply";
+import { chain, Either, parseJSON } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import { map, readerTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import { DecodeError } from "./Decoder";
+import { GitLabDSL, GitLabJSONDSL } from "./GitLabDSL";
+import { decodeJSONDSL } from "./GitLabDecoders";
+import { toError } from "./GitLabAPIError";
+import {
+  getFileContents,
+  getMergeRequestChanges,
+  getMergeRequestCommits,
+  getMergeRequestInfo,
+  getMergeRequestNotes,
+  GitLabOp,
+} from "./GitLabClient";
+import TE from "./TaskEitherUtils";
+
+export type FileContents = GitLabDSL["utils"]["fileContents"];
+
+/**
+ * Fetch everything the DSL needs in parallel.
+ */
+export const getGitLabJSONDSL: GitLabOp<GitLabJSONDSL> = env =>
+  pipe(
+    sequenceS(readerTaskEither)({
+      mr: getMergeRequestInfo,
+      commits: getMergeRequestCommits,
+      changes: getMergeRequestChanges,
+      notes: getMergeRequestNotes,
+    }),
+    map(fields => ({ metadata: env.metadata, ...fields }))
+  )(env);
+
+export const toGitLabDSL = (
+  json: GitLabJSONDSL,
+  fileContents: FileContents
+): GitLabDSL => ({ ...json, utils: { fileContents } });
+
+/**
+ * The DSL with `utils.fileContents` reading from the same merge request.
+ */
+export const getGitLabDSL: GitLabOp<GitLabDSL> = env =>
+  pipe(
+    getGitLabJSONDSL,
+    map(json =>
+      toGitLabDSL(json, (path, repoSlug, ref) =>
+        TE.toPromise(toError)(getFileContents(path, repoSlug, ref)(env))
+      )
+    )
+  )(env);
+
+/**
+ * JSON of the data part of the DSL, `utils` are dropped.
+ */
+export const serializeDSL = (dsl: GitLabJSONDSL): string => {
+  const { metadata, mr, commits, changes, notes } = dsl;
+  return JSON.stringify({ metadata, mr, commits, changes, notes }, null, 2);
+};
+
+const invalidJSON = (reason: unknown): DecodeError =>
+  new DecodeError("GitLabJSONDSL", [
+    { path: "", message: `invalid JSON: ${(reason as Error).message}` },
+  ]);
+
+/**
+ * Read a DSL written by `serializeDSL`, validating it like an API response.
+ */
+export const deserializeDSL = (
+  json: string
+): Either<DecodeError, GitLabJSONDSL> =>
+  pipe(
+    parseJSON(json, invalidJSON),
+    chain(decodeJSONDSL)
+  );
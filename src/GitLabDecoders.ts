@@ -0,0 +1,383 @@
+// Run-time decoders for the JSON responses described in GitLabDSL.ts.
+// Each decoder is typed against its interface, so the two can't drift apart
+// without a compile error.
+import {
+  array,
+  boolean,
+  Decoder,
+  decodeWith,
+  intersection,
+  literal,
+  nullable,
+  number,
+  optional,
+  string,
+  type,
+} from "./Decoder";
+import {
+  GitLabDiscussion,
+  GitLabDiscussionNote,
+  GitLabDiscussionTextPosition,
+  GitLabInlineNote,
+  GitLabJSONDSL,
+  GitLabMR,
+  GitLabMRBase,
+  GitLabMRChange,
+  GitLabMRChanges,
+  GitLabMRCommit,
+  GitLabMRSummary,
+  GitLabNote,
+  GitLabJob,
+  GitLabPipeline,
+  GitLabPipelineStatus,
+  GitLabTreeEntry,
+  GitLabUser,
+  GitLabUserProfile,
+  RepoMetaData,
+} from "./GitLabDSL";
+
+export const GitLabUserDecoder: Decoder<GitLabUser> = type({
+  id: number,
+  name: string,
+  username: string,
+  state: literal("active", "blocked"),
+  avatar_url: nullable(string),
+  web_url: string,
+});
+
+export const GitLabUserProfileDecoder: Decoder<
+  GitLabUserProfile
+> = intersection(
+  GitLabUserDecoder,
+  type({
+    created_at: string,
+    bio: nullable(string),
+    location: nullable(string),
+    public_email: string,
+    skype: string,
+    linkedin: string,
+    twitter: string,
+    website_url: string,
+    organization: string,
+    last_sign_in_at: string,
+    confirmed_at: string,
+    theme_id: number,
+    last_activity_on: string,
+    color_scheme_id: number,
+    projects_limit: number,
+    current_sign_in_at: string,
+    identities: array(type({ provider: string, extern_uid: string })),
+    can_create_group: boolean,
+    can_create_project: boolean,
+    two_factor_enabled: boolean,
+    external: boolean,
+    private_profile: boolean,
+  })
+);
+
+export const GitLabPipelineStatusDecoder: Decoder<
+  GitLabPipelineStatus
+> = literal(
+  "created",
+  "waiting_for_resource",
+  "preparing",
+  "pending",
+  "running",
+  "success",
+  "failed",
+  "canceled",
+  "skipped",
+  "manual",
+  "scheduled"
+);
+
+export const GitLabPipelineDecoder: Decoder<GitLabPipeline> = type({
+  id: number,
+  sha: string,
+  ref: string,
+  status: GitLabPipelineStatusDecoder,
+  web_url: string,
+  created_at: optional(string),
+  updated_at: optional(string),
+});
+
+export const GitLabJobDecoder: Decoder<GitLabJob> = type({
+  id: number,
+  name: string,
+  stage: string,
+  status: GitLabPipelineStatusDecoder,
+  ref: string,
+  tag: boolean,
+  allow_failure: boolean,
+  created_at: string,
+  started_at: nullable(string),
+  finished_at: nullable(string),
+  duration: nullable(number),
+  web_url: string,
+  pipeline: type({
+    id: number,
+    sha: string,
+    ref: string,
+    status: GitLabPipelineStatusDecoder,
+  }),
+  artifacts_file: optional(type({ filename: string, size: number })),
+  failure_reason: optional(string),
+});
+
+const mergeRequestSummaryFields = {
+  id: number,
+  iid: number,
+  project_id: number,
+  title: string,
+  description: string,
+  state: literal("opened", "closed", "locked", "merged"),
+  created_at: string,
+  updated_at: string,
+  target_branch: string,
+  source_branch: string,
+  upvotes: number,
+  downvotes: number,
+  author: GitLabUserDecoder,
+  assignee: nullable(GitLabUserDecoder),
+  assignees: optional(array(GitLabUserDecoder)),
+  reviewers: optional(array(GitLabUserDecoder)),
+  source_project_id: number,
+  target_project_id: number,
+  labels: array(string),
+  work_in_progress: boolean,
+  milestone: nullable(
+    type({
+      id: number,
+      iid: number,
+      project_id: optional(number),
+      group_id: optional(number),
+      title: string,
+      description: string,
+      state: literal("active", "closed"),
+      created_at: string,
+      updated_at: string,
+      due_date: nullable(string),
+      start_date: nullable(string),
+      web_url: string,
+    })
+  ),
+  merge_when_pipeline_succeeds: boolean,
+  merge_status: literal(
+    "can_be_merged",
+    "cannot_be_merged",
+    "unchecked",
+    "checking",
+    "cannot_be_merged_recheck"
+  ),
+  sha: string,
+  merge_commit_sha: nullable(string),
+  user_notes_count: number,
+  discussion_locked: nullable(boolean),
+  should_remove_source_branch: nullable(boolean),
+  force_remove_source_branch: boolean,
+  allow_collaboration: optional(boolean),
+  allow_maintainer_to_push: optional(boolean),
+  web_url: string,
+  time_stats: type({
+    time_estimate: number,
+    total_time_spent: number,
+    human_time_estimate: nullable(string),
+    human_total_time_spent: nullable(string),
+  }),
+};
+
+export const GitLabMRSummaryDecoder: Decoder<GitLabMRSummary> = type({
+  ...mergeRequestSummaryFields,
+  merged_at: nullable(string),
+  closed_at: nullable(string),
+});
+
+export const GitLabMRBaseDecoder: Decoder<GitLabMRBase> = type({
+  ...mergeRequestSummaryFields,
+  user: type({ can_merge: boolean }),
+  merge_error: nullable(string),
+});
+
+export const GitLabMRDecoder: Decoder<GitLabMR> = intersection(
+  GitLabMRBaseDecoder,
+  type({
+    squash: boolean,
+    subscribed: boolean,
+    changes_count: string,
+    merged_by: nullable(GitLabUserDecoder),
+    merged_at: nullable(string),
+    closed_by: nullable(GitLabUserDecoder),
+    closed_at: nullable(string),
+    latest_build_started_at: nullable(string),
+    latest_build_finished_at: nullable(string),
+    first_deployed_to_production_at: nullable(string),
+    pipeline: nullable(
+      type({
+        id: number,
+        sha: string,
+        ref: string,
+        status: GitLabPipelineStatusDecoder,
+        web_url: string,
+      })
+    ),
+    diff_refs: type({
+      base_sha: string,
+      head_sha: string,
+      start_sha: string,
+    }),
+    diverged_commits_count: optional(number),
+    rebase_in_progress: optional(boolean),
+    approvals_before_merge: nullable(number),
+  })
+);
+
+export const GitLabMRChangeDecoder: Decoder<GitLabMRChange> = type({
+  old_path: string,
+  new_path: string,
+  a_mode: string,
+  b_mode: string,
+  diff: string,
+  new_file: boolean,
+  renamed_file: boolean,
+  deleted_file: boolean,
+});
+
+export const GitLabMRChangesDecoder: Decoder<GitLabMRChanges> = intersection(
+  GitLabMRBaseDecoder,
+  type({ changes: array(GitLabMRChangeDecoder) })
+);
+
+export const GitLabMRCommitDecoder: Decoder<GitLabMRCommit> = type({
+  id: string,
+  short_id: string,
+  created_at: string,
+  parent_ids: array(string),
+  title: string,
+  message: string,
+  author_name: string,
+  author_email: string,
+  authored_date: string,
+  committer_name: string,
+  committer_email: string,
+  committed_date: string,
+});
+
+export const GitLabNoteDecoder: Decoder<GitLabNote> = type({
+  id: number,
+  type: nullable(literal("DiffNote", "DiscussionNote")),
+  body: string,
+  attachment: nullable(string),
+  author: GitLabUserDecoder,
+  created_at: string,
+  updated_at: string,
+  system: boolean,
+  noteable_id: number,
+  noteable_type: literal("MergeRequest"),
+  resolvable: boolean,
+  noteable_iid: number,
+});
+
+export const GitLabNotePositionDecoder: Decoder<
+  GitLabDiscussionTextPosition
+> = type({
+  base_sha: string,
+  start_sha: string,
+  head_sha: string,
+  old_path: string,
+  new_path: string,
+  position_type: literal("text"),
+  old_line: nullable(number),
+  new_line: nullable(number),
+});
+
+export const GitLabInlineNoteDecoder: Decoder<GitLabInlineNote> = intersection(
+  GitLabNoteDecoder,
+  type({
+    position: GitLabNotePositionDecoder,
+    resolvable: boolean,
+    resolved: boolean,
+    resolved_by: nullable(GitLabUserDecoder),
+  })
+);
+
+export const GitLabDiscussionNoteDecoder: Decoder<
+  GitLabDiscussionNote
+> = intersection(
+  GitLabNoteDecoder,
+  type({
+    resolved: optional(boolean),
+    resolved_by: optional(nullable(GitLabUserDecoder)),
+    position: optional(GitLabNotePositionDecoder),
+  })
+);
+
+export const GitLabDiscussionDecoder: Decoder<GitLabDiscussion> = type({
+  id: string,
+  individual_note: boolean,
+  notes: array(GitLabDiscussionNoteDecoder),
+});
+
+export const RepoMetaDataDecoder: Decoder<RepoMetaData> = type({
+  repoSlug: string,
+  pullRequestID: string,
+});
+
+export const GitLabJSONDSLDecoder: Decoder<GitLabJSONDSL> = type({
+  metadata: RepoMetaDataDecoder,
+  mr: GitLabMRDecoder,
+  commits: array(GitLabMRCommitDecoder),
+  changes: array(GitLabMRChangeDecoder),
+  notes: array(GitLabNoteDecoder),
+});
+
+export const GitLabTreeEntryDecoder: Decoder<GitLabTreeEntry> = type({
+  id: string,
+  name: string,
+  type: literal("blob", "tree", "commit"),
+  path: string,
+  mode: string,
+});
+
+/** Only the part of a RepositoryFiles.show response that we use */
+export const GitLabRepositoryFileDecoder = type({ content: string });
+
+export const decodeUserProfile = decodeWith(
+  GitLabUserProfileDecoder,
+  "GitLabUserProfile"
+);
+export const decodeMergeRequest = decodeWith(GitLabMRDecoder, "GitLabMR");
+export const decodeMergeRequestChanges = decodeWith(
+  GitLabMRChangesDecoder,
+  "GitLabMRChanges"
+);
+export const decodeMergeRequestCommits = decodeWith(
+  array(GitLabMRCommitDecoder),
+  "GitLabMRCommit[]"
+);
+export const decodeNotes = decodeWith(array(GitLabNoteDecoder), "GitLabNote[]");
+export const decodeNote = decodeWith(GitLabNoteDecoder, "GitLabNote");
+export const decodeInlineNote = decodeWith(
+  GitLabInlineNoteDecoder,
+  "GitLabInlineNote"
+);
+export const decodeInlineNotes = decodeWith(
+  array(GitLabInlineNoteDecoder),
+  "GitLabInlineNote[]"
+);
+export const decodeDiscussionNote = decodeWith(
+  GitLabDiscussionNoteDecoder,
+  "GitLabDiscussionNote"
+);
+export const decodeDiscussion = decodeWith(
+  GitLabDiscussionDecoder,
+  "GitLabDiscussion"
+);
+export const decodePipeline = decodeWith(
+  GitLabPipelineDecoder,
+  "GitLabPipeline"
+);
+export const decodeRepositoryFile = decodeWith(
+  GitLabRepositoryFileDecoder,
+  "RepositoryFile"
+);
+export const decodeJSONDSL = decodeWith(GitLabJSONDSLDecoder, "GitLabJSONDSL");
@@ -0,0 +1,264 @@
+// The environment GitLab operations run in, and the helpers to build them.
+import { Gitlab } from "gitlab";
+import { pipe } from "fp-ts/lib/pipeable";
+import { Either, isRight } from "fp-ts/lib/Either";
+import { local, ReaderTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+import { RepoMetaData } from "./GitLabDSL";
+import { GitLabAPICredentials } from "./GitLabAPI";
+import { DecodeError } from "./Decoder";
+import {
+  GitLabAPIError,
+  isHTTPError,
+  isRetryable,
+  ResponseHeaders,
+  retryAfterMs,
+} from "./GitLabAPIError";
+import {
+  debugLogger,
+  LogFields,
+  Logger,
+  redacting,
+  summarize,
+} from "./Logging";
+import { createCache, RequestCache } from "./RequestCache";
+import { createRequester } from "./Requester";
+import { bounded } from "./Timeout";
+import TE, { RetryPolicy, systemClock } from "./TaskEitherUtils";
+
+export type Gitlab = InstanceType<typeof Gitlab>;
+
+export { Logger };
+
+/**
+ * Everything a GitLab operation needs to run.
+ */
+export interface GitLabEnv {
+  /** SDK instance making the HTTP requests */
+  api: Gitlab;
+  credentials: GitLabAPICredentials;
+  metadata: RepoMetaData;
+  log: Logger;
+  /** Used by `withRetry`, i.e. by every read */
+  retry: RetryPolicy<GitLabAPIError>;
+  /** Reads are not cached without one */
+  cache?: RequestCache;
+  /** Aborts every request, see Timeout.ts */
+  signal?: AbortSignal;
+  /** Time of `retry.clock` after which requests fail, see Timeout.ts */
+  deadline?: number;
+}
+
+export type GitLabOp<A> = ReaderTaskEither<GitLabEnv, GitLabAPIError, A>;
+
+export const defaultRetryPolicy: RetryPolicy<GitLabAPIError> = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  isRetryable,
+  retryAfterMs,
+  clock: systemClock,
+  random: Math.random,
+};
+
+export const createEnv = (
+  metadata: RepoMetaData,
+  credentials: GitLabAPICredentials,
+  log: Logger = debugLogger("GitLabAPI"),
+  retry: RetryPolicy<GitLabAPIError> = defaultRetryPolicy,
+  cache: RequestCache = createCache()
+): GitLabEnv => ({
+  api: new Gitlab({
+    host: credentials.host,
+    ...(credentials.tokenType === "job"
+      ? { jobToken: credentials.token }
+      : { token: credentials.token }),
+    requester: createRequester(),
+  }),
+  credentials,
+  metadata,
+  log: redacting([credentials.token])(log),
+  retry,
+  cache,
+});
+
+/**
+ * Retry an operation according to `env.retry`, without waiting past the
+ * deadline of the environment. Reads and idempotent writes are wrapped by
+ * default; use this to opt in for other writes, e.g.
+ * `withRetry(createMergeRequestNote(body))`.
+ */
+export const withRetry = <A>(op: GitLabOp<A>): GitLabOp<A> => env =>
+  TE.retrying(
+    env.deadline === undefined
+      ? env.retry
+      : { ...env.retry, deadline: env.deadline }
+  )(op(env));
+
+/**
+ * Run a program against another merge request or project with the same client.
+ */
+export const withMetadata = (metadata: RepoMetaData) => <A>(
+  op: GitLabOp<A>
+): GitLabOp<A> => local((env: GitLabEnv) => ({ ...env, metadata }))(op);
+
+export const mergeRequestIID = (metadata: RepoMetaData): number =>
+  parseInt(metadata.pullRequestID, 10);
+
+export const projectEndpoint = (projectId: string): string =>
+  `/projects/${encodeURIComponent(projectId)}`;
+
+export const mergeRequestEndpoint = (metadata: RepoMetaData): string =>
+  `${projectEndpoint(metadata.repoSlug)}/merge_requests/${
+    metadata.pullRequestID
+  }`;
+
+export const fileEndpoint = (projectId: string, path: string): string =>
+  `${projectEndpoint(projectId)}/repository/files/${encodeURIComponent(path)}`;
+
+const requestFields = (
+  name: string,
+  env: GitLabEnv,
+  endpoint: string
+): LogFields => ({
+  operation: name,
+  project: env.metadata.repoSlug,
+  mr: env.metadata.pullRequestID,
+  endpoint,
+});
+
+/**
+ * Log the outcome of a request and its duration, measured with the clock of
+ * the retry policy. Every attempt is logged.
+ * @param statusOf HTTP status of a response, when the SDK keeps it
+ */
+const logRequest = <A>(
+  env: GitLabEnv,
+  fields: LogFields,
+  statusOf: (a: A) => number | undefined = () => undefined
+) => (
+  ma: TaskEither<GitLabAPIError, A>
+): TaskEither<GitLabAPIError, A> => () => {
+  const { clock } = env.retry;
+  const start = clock.now();
+  return ma().then(result => {
+    const durationMs = clock.now() - start;
+    if (isRight(result)) {
+      env.log("info", "request", {
+        ...fields,
+        status: statusOf(result.right),
+        durationMs,
+      });
+    } else {
+      const e = result.left;
+      env.log("warn", "request failed", {
+        ...fields,
+        status: isHTTPError(e) ? e.status : undefined,
+        error: e._tag,
+        durationMs,
+      });
+    }
+    return result;
+  });
+};
+
+/**
+ * Lift an SDK call to an operation.
+ * @param name Operation name used in the log
+ * @param endpoint Request path used in errors
+ * @param call I/O action using the SDK
+ */
+export const request = (
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  call: (env: GitLabEnv) => Promise<unknown>
+): GitLabOp<unknown> => env =>
+  pipe(
+    bounded(env, name, endpoint(env))(sending =>
+      TE.fromRequest(endpoint(env))(() => call(sending))
+    ),
+    logRequest(env, requestFields(name, env, endpoint(env))),
+    TE.logValueWith(env.log)(name)
+  );
+
+/**
+ * Validate the response of an operation.
+ */
+export const decodeResponse = <A, B>(
+  endpoint: (env: GitLabEnv) => string,
+  f: (a: A) => Either<DecodeError, B>
+) => (op: GitLabOp<A>): GitLabOp<B> => env =>
+  pipe(
+    op(env),
+    TE.chainDecode(endpoint(env), f)
+  );
+
+export interface RawResponse {
+  body: unknown;
+  headers: ResponseHeaders;
+  status: number;
+}
+
+type RawMethod = "get" | "post" | "put";
+
+/**
+ * Send a request through the SDK's HTTP client, keeping the status and the
+ * headers that the SDK methods drop.
+ */
+const raw = (method: RawMethod) => (
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  options: { query?: object; body?: object }
+): GitLabOp<RawResponse> => env =>
+  pipe(
+    bounded(env, name, endpoint(env))(({ api }) =>
+      TE.fromRequest(endpoint(env))(() => {
+        // The root service has no URL prefix, so endpoints are relative to
+        // /api/v4
+        const service = api.MergeRequests;
+        return service.requester[method](
+          service,
+          endpoint(env).replace(/^\//, ""),
+          options
+        ) as Promise<RawResponse>;
+      })
+    ),
+    logRequest(
+      env,
+      { ...requestFields(name, env, endpoint(env)), query: options.query },
+      (response: RawResponse) => response.status
+    ),
+    TE.logValueWith(env.log)(name, (response: RawResponse) =>
+      summarize(response.body)
+    )
+  );
+
+/**
+ * GET through the SDK's HTTP client, keeping the response headers that the
+ * SDK methods drop.
+ * @param query Query parameters, camelCase keys are sent as snake_case
+ */
+export const rawGet = (
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  query: object = {}
+): GitLabOp<RawResponse> => raw("get")(name, endpoint, { query });
+
+/**
+ * POST a JSON body to an endpoint that has no SDK method, or whose SDK method
+ * requires arguments GitLab doesn't.
+ * @param body camelCase keys are sent as snake_case
+ */
+export const rawPost = (
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  body: object = {}
+): GitLabOp<RawResponse> => raw("post")(name, endpoint, { body });
+
+/** PUT counterpart of `rawPost` */
+export const rawPut = (
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  body: object = {}
+): GitLabOp<RawResponse> => raw("put")(name, endpoint, { body });
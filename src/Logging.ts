@@ -0,0 +1,172 @@
+// Structured logging: a logger is a function of a level, a message and
+// fields, so `() => {}` is a valid silent logger.
+import debug from "debug";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Fields describing a request, plus anything else worth logging */
+export interface LogFields {
+  operation?: string;
+  /** Project path */
+  project?: string;
+  /** Merge request IID */
+  mr?: string;
+  endpoint?: string;
+  status?: number;
+  durationMs?: number;
+  [field: string]: unknown;
+}
+
+export type Logger = (
+  level: LogLevel,
+  message: string,
+  fields?: LogFields
+) => void;
+
+const severity: { [L in LogLevel]: number } = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+export const silentLogger: Logger = () => {};
+
+export const REDACTED = "[REDACTED]";
+
+// "PRIVATE-TOKEN", "JOB-TOKEN", "token", "jobToken", "Authorization", ...
+const secretKey = /token$|^authorization$|password|secret/i;
+const emailKey = /email/i;
+const email = /[^\s@<>"'`()]+@[^\s@<>"'`()]+\.[a-z]{2,}/gi;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Replace tokens and email addresses in a value, recursively. Keys that name
+ * a secret are redacted whatever their value.
+ * @param secrets Values to redact wherever they appear, e.g. the API token
+ */
+export const redact = (secrets: string[] = []) => {
+  const known = secrets.filter(secret => secret.length > 0);
+  const secretValue =
+    known.length > 0
+      ? new RegExp(known.map(escapeRegExp).join("|"), "g")
+      : undefined;
+  const go = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const withoutSecrets = secretValue
+        ? value.replace(secretValue, REDACTED)
+        : value;
+      return withoutSecrets.replace(email, REDACTED);
+    }
+    if (Array.isArray(value)) {
+      return value.map(go);
+    }
+    if (value instanceof Error) {
+      return go(value.message);
+    }
+    if (value !== null && typeof value === "object") {
+      const fields = value as { [key: string]: unknown };
+      const result: { [key: string]: unknown } = {};
+      Object.keys(fields).forEach(key => {
+        result[key] =
+          secretKey.test(key) || emailKey.test(key)
+            ? REDACTED
+            : go(fields[key]);
+      });
+      return result;
+    }
+    return value;
+  };
+  return go;
+};
+
+/**
+ * A logger that redacts its messages and fields before passing them on.
+ */
+export const redacting = (secrets: string[] = []) => (
+  logger: Logger
+): Logger => {
+  const clean = redact(secrets);
+  return (level, message, fields) =>
+    logger(
+      level,
+      clean(message) as string,
+      fields === undefined ? undefined : (clean(fields) as LogFields)
+    );
+};
+
+/**
+ * Add fields to every entry, e.g. to tell apart the logs of two jobs.
+ */
+export const withFields = (fields: LogFields) => (logger: Logger): Logger => (
+  level,
+  message,
+  more
+) => logger(level, message, { ...fields, ...more });
+
+export interface JSONLoggerOptions {
+  /** Entries below this level are dropped */
+  level: LogLevel;
+  /** Milliseconds since the epoch */
+  now: () => number;
+}
+
+/**
+ * One JSON object per line, with `time`, `level` and `message` first.
+ * Tokens and emails are redacted.
+ * @param write Output of a line, stderr by default
+ */
+export const jsonLogger = (
+  write: (line: string) => void = line => process.stderr.write(`${line}\n`),
+  options: Partial<JSONLoggerOptions> = {}
+): Logger => {
+  const { level: minLevel, now }: JSONLoggerOptions = {
+    level: "info",
+    now: () => Date.now(),
+    ...options,
+  };
+  return redacting()((level, message, fields) => {
+    if (severity[level] < severity[minLevel]) {
+      return;
+    }
+    write(
+      JSON.stringify({
+        time: new Date(now()).toISOString(),
+        level,
+        message,
+        ...fields,
+      })
+    );
+  });
+};
+
+/**
+ * Log through the `debug` package, enabled with `DEBUG=<namespace>`.
+ */
+export const debugLogger = (namespace: string): Logger => {
+  const log = debug(namespace);
+  return redacting()((level, message, fields) =>
+    fields === undefined
+      ? log("%s %s", level, message)
+      : log("%s %s %o", level, message, fields)
+  );
+};
+
+/**
+ * Short description of a response: the number of items of a list, the id
+ * of an object, never the whole payload.
+ */
+export const summarize = (value: unknown): LogFields => {
+  if (Array.isArray(value)) {
+    return { count: value.length };
+  }
+  if (typeof value === "string") {
+    return { length: value.length };
+  }
+  if (value !== null && typeof value === "object") {
+    const { id, iid } = value as { id?: unknown; iid?: unknown };
+    return iid !== undefined ? { id, iid } : id !== undefined ? { id } : {};
+  }
+  return {};
+};
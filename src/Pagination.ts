@@ -0,0 +1,142 @@
+// Offset pagination following the `X-Next-Page` and `Link` headers.
+// https://docs.gitlab.com/ee/api/README.html#pagination
+import { pipe } from "fp-ts/lib/pipeable";
+import { mapLeft, map as mapEither } from "fp-ts/lib/Either";
+import { isNone, map as mapOption, none, Option, some } from "fp-ts/lib/Option";
+import { chain, right as rightRTE } from "fp-ts/lib/ReaderTaskEither";
+import { array, Decoder, decodeWith } from "./Decoder";
+import { decode, ResponseHeaders } from "./GitLabAPIError";
+import { GitLabEnv, GitLabOp, rawGet, withRetry } from "./GitLabEnv";
+import TE from "./TaskEitherUtils";
+
+export interface PaginationOptions {
+  /** Items per request, GitLab allows at most 100 */
+  perPage: number;
+  /** Stop fetching once this many items have been listed, across pages */
+  maxItems: number;
+}
+
+export const defaultPaginationOptions: PaginationOptions = {
+  perPage: 100,
+  maxItems: Infinity,
+};
+
+export interface Page<A> {
+  items: A[];
+  /** Fetches the following page, if there is one */
+  next: Option<GitLabOp<Page<A>>>;
+}
+
+const linkNextPage = (link: string): Option<number> => {
+  const next = link
+    .split(",")
+    .map(part => part.match(/<([^>]*)>\s*;\s*rel="next"/))
+    .filter(match => match !== null)[0];
+  if (!next) {
+    return none;
+  }
+  const page = next[1].match(/[?&]page=(\d+)/);
+  return page ? some(parseInt(page[1], 10)) : none;
+};
+
+/**
+ * Number of the next page from `X-Next-Page`, falling back to the `Link`
+ * header. Both are empty on the last page.
+ */
+export const nextPageNumber = (headers: ResponseHeaders): Option<number> => {
+  const nextPage = parseInt(headers["x-next-page"], 10);
+  if (!isNaN(nextPage)) {
+    return some(nextPage);
+  }
+  return headers["link"] ? linkNextPage(headers["link"]) : none;
+};
+
+/**
+ * Lazily paginated GET request. Nothing is fetched until the returned
+ * operation is run, and each page only fetches the next one on demand. The
+ * page reaching `maxItems` is cut short and has no next page.
+ * @param name Operation name used in the log
+ * @param endpoint Request path relative to the API root
+ * @param decoder Decoder for a single item
+ * @param query Parameters sent with every page, e.g. filters
+ */
+export const paginate = <A>(
+  name: string,
+  endpoint: (env: GitLabEnv) => string,
+  decoder: Decoder<A>,
+  options: Partial<PaginationOptions> = {},
+  query: object = {}
+): GitLabOp<Page<A>> => {
+  const { perPage, maxItems } = { ...defaultPaginationOptions, ...options };
+  const decodeItems = decodeWith(array(decoder), `${name} page`);
+
+  /** @param listed Items of the previous pages */
+  const fetchPage = (page: number, listed: number): GitLabOp<Page<A>> =>
+    withRetry(env =>
+      pipe(
+        rawGet(name, endpoint, { ...query, page, perPage })(env),
+        TE.chainEither(response =>
+          pipe(
+            decodeItems(response.body),
+            mapLeft(e => decode(endpoint(env), e, response.body)),
+            mapEither(all => {
+              const items = all.slice(0, maxItems - listed);
+              const total = listed + items.length;
+              return {
+                items,
+                next:
+                  total >= maxItems
+                    ? none
+                    : pipe(
+                        nextPageNumber(response.headers),
+                        mapOption(next => fetchPage(next, total))
+                      ),
+              };
+            })
+          )
+        )
+      )
+    );
+
+  return fetchPage(1, 0);
+};
+
+/**
+ * Fetch pages until there are no more or `maxItems` items are collected, see
+ * also `PaginationOptions.maxItems`.
+ */
+export const collectPages = (maxItems: number = Infinity) => <A>(
+  first: GitLabOp<Page<A>>
+): GitLabOp<A[]> => {
+  const go = (page: GitLabOp<Page<A>>, acc: A[]): GitLabOp<A[]> =>
+    pipe(
+      page,
+      chain(({ items, next }) => {
+        const collected = [...acc, ...items];
+        return collected.length >= maxItems || isNone(next)
+          ? rightRTE(collected.slice(0, maxItems))
+          : go(next.value, collected);
+      })
+    );
+  return go(first, []);
+};
+
+/**
+ * Fetch pages until an item matches, without fetching the remaining pages.
+ */
+export const findInPages = <A>(predicate: (a: A) => boolean) => (
+  first: GitLabOp<Page<A>>
+): GitLabOp<Option<A>> => {
+  const go = (page: GitLabOp<Page<A>>): GitLabOp<Option<A>> =>
+    pipe(
+      page,
+      chain(({ items, next }) => {
+        const found = items.filter(predicate)[0];
+        if (found !== undefined) {
+          return rightRTE(some(found));
+        }
+        return isNone(next) ? rightRTE(none) : go(next.value);
+      })
+    );
+  return go(first);
+};
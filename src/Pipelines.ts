@@ -0,0 +1,258 @@
+// Pipelines of a merge request and their jobs, e.g. for a rule that posts the
+// end of the log of a failed test job on the merge request.
+import { array } from "fp-ts/lib/Array";
+import { Either, left, right } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import {
+  chain,
+  map,
+  readerTaskEitherSeq,
+  right as rightRTE,
+} from "fp-ts/lib/ReaderTaskEither";
+import { DecodeError, decodeWith, string } from "./Decoder";
+import { GitLabAPIError } from "./GitLabAPIError";
+import { GitLabJob, GitLabPipeline } from "./GitLabDSL";
+import {
+  decodePipeline,
+  GitLabJobDecoder,
+  GitLabPipelineDecoder,
+} from "./GitLabDecoders";
+import {
+  decodeResponse,
+  GitLabEnv,
+  GitLabOp,
+  mergeRequestEndpoint,
+  projectEndpoint,
+  RawResponse,
+  rawGet,
+  request,
+  withRetry,
+} from "./GitLabEnv";
+import { collectPages, Page, paginate, PaginationOptions } from "./Pagination";
+import { cached, invalidating } from "./RequestCache";
+
+const fromProject = (env: GitLabEnv) => projectEndpoint(env.metadata.repoSlug);
+const fromPipelines = (env: GitLabEnv) =>
+  `${mergeRequestEndpoint(env.metadata)}/pipelines`;
+const fromPipeline = (id: number) => (env: GitLabEnv) =>
+  `${fromProject(env)}/pipelines/${id}`;
+const fromJobs = (pipelineId: number) => (env: GitLabEnv) =>
+  `${fromPipeline(pipelineId)(env)}/jobs`;
+const fromJob = (id: number) => (env: GitLabEnv) =>
+  `${fromProject(env)}/jobs/${id}`;
+
+export const getMergeRequestPipelinePages = (
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabPipeline>> =>
+  paginate(
+    "getMergeRequestPipelines",
+    fromPipelines,
+    GitLabPipelineDecoder,
+    options
+  );
+
+/** The pipelines of the merge request, newest first */
+export const getMergeRequestPipelines: GitLabOp<GitLabPipeline[]> = pipe(
+  getMergeRequestPipelinePages(),
+  collectPages(),
+  cached(fromPipelines, "mutable")
+);
+
+export const getPipelineJobPages = (
+  pipelineId: number,
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabJob>> =>
+  paginate("getPipelineJobs", fromJobs(pipelineId), GitLabJobDecoder, options);
+
+/** The jobs of a pipeline of the project of the merge request */
+export const getPipelineJobs = (pipelineId: number): GitLabOp<GitLabJob[]> =>
+  pipe(
+    getPipelineJobPages(pipelineId),
+    collectPages(),
+    cached(fromJobs(pipelineId), "mutable")
+  );
+
+const decodeText = decodeWith(string, "text");
+
+/**
+ * The log of a job as GitLab stores it, with ANSI escape codes, see
+ * `cleanTrace`. Not cached: the log of a running job grows.
+ */
+export const getJobTrace = (jobId: number): GitLabOp<string> => {
+  const endpoint = (env: GitLabEnv) => `${fromJob(jobId)(env)}/trace`;
+  return pipe(
+    request("getJobTrace", endpoint, ({ api, metadata }) =>
+      api.Jobs.downloadTraceFile(metadata.repoSlug, jobId)
+    ),
+    decodeResponse(endpoint, decodeText),
+    withRetry
+  );
+};
+
+/** Content types read as text, e.g. `text/plain` or `application/xml` */
+const isText = (contentType: string) =>
+  /^text\/|[/+](json|xml|yaml|javascript)\b/.test(contentType);
+
+/** The body of a text file, a binary one would be corrupted by decoding */
+const decodeArtifact = ({
+  body,
+  headers,
+}: RawResponse): Either<DecodeError, string> => {
+  const contentType = headers["content-type"] || "";
+  return isText(contentType)
+    ? right(typeof body === "string" ? body : JSON.stringify(body))
+    : left(
+        new DecodeError("text artifact", [
+          { path: "", message: `Expected text, got "${contentType}"` },
+        ])
+      );
+};
+
+/**
+ * A file of the artifacts of a job, as text. JSON files are parsed by the
+ * HTTP client, so they are serialized again. Fails with `NotFound` if the
+ * job has no such file, and with `Decode` if the file isn't text.
+ * @param path Path of the file in the artifacts archive
+ */
+export const getJobArtifact = (
+  jobId: number,
+  path: string
+): GitLabOp<string> => {
+  const endpoint = (env: GitLabEnv) =>
+    `${fromJob(jobId)(env)}/artifacts/${path
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}`;
+  return pipe(
+    rawGet("getJobArtifact", endpoint),
+    decodeResponse(endpoint, decodeArtifact),
+    withRetry,
+    // Artifacts don't change once the job has finished
+    cached(endpoint, "immutable")
+  );
+};
+
+const invalidatingPipeline = (id: number) =>
+  invalidating(fromPipelines, fromPipeline(id));
+
+/** Retry the failed and canceled jobs of a pipeline */
+export const retryPipeline = (id: number): GitLabOp<GitLabPipeline> => {
+  const endpoint = (env: GitLabEnv) => `${fromPipeline(id)(env)}/retry`;
+  return pipe(
+    request("retryPipeline", endpoint, ({ api, metadata }) =>
+      api.Pipelines.retry(metadata.repoSlug, id)
+    ),
+    decodeResponse(endpoint, decodePipeline),
+    invalidatingPipeline(id)
+  );
+};
+
+export const cancelPipeline = (id: number): GitLabOp<GitLabPipeline> => {
+  const endpoint = (env: GitLabEnv) => `${fromPipeline(id)(env)}/cancel`;
+  return pipe(
+    request("cancelPipeline", endpoint, ({ api, metadata }) =>
+      api.Pipelines.cancel(metadata.repoSlug, id)
+    ),
+    decodeResponse(endpoint, decodePipeline),
+    // Canceling twice is harmless
+    withRetry,
+    invalidatingPipeline(id)
+  );
+};
+
+// Colors, and the markers of the collapsible sections of GitLab's log viewer
+const ansi = /\x1b\[[0-9;]*[A-Za-z]/g;
+const sectionMarker = /section_(start|end):\d+:[\w.-]+(\[[^\]]*\])?\r?/g;
+
+const lastRedraw = (line: string): string => {
+  const states = line.replace(/\r+$/, "").split("\r");
+  return states[states.length - 1];
+};
+
+/**
+ * The log as shown by GitLab: without escape codes and section markers, and
+ * with only the last state of lines redrawn with `\r`, e.g. progress bars.
+ */
+export const cleanTrace = (trace: string): string =>
+  trace
+    .split("\n")
+    .map(line => {
+      const unmarked = line.replace(sectionMarker, "");
+      return {
+        marked: unmarked !== line,
+        text: lastRedraw(unmarked.replace(ansi, "")),
+      };
+    })
+    // A line holding only a section marker isn't shown
+    .filter(({ marked, text }) => !marked || text !== "")
+    .map(({ text }) => text)
+    .join("\n");
+
+/** The last lines of the cleaned log, without trailing blank lines */
+export const traceTail = (trace: string, lines: number = 20): string =>
+  cleanTrace(trace)
+    .replace(/\s+$/, "")
+    .split("\n")
+    .slice(-lines)
+    .join("\n");
+
+/**
+ * Jobs that failed the pipeline. A retried job is listed once per attempt,
+ * only its last attempt counts.
+ */
+export const failedJobs = (jobs: GitLabJob[]): GitLabJob[] => {
+  const latest = new Map<string, GitLabJob>();
+  jobs.forEach(job => {
+    const previous = latest.get(job.name);
+    if (!previous || previous.id < job.id) {
+      latest.set(job.name, job);
+    }
+  });
+  return Array.from(latest.values())
+    .filter(job => job.status === "failed" && !job.allow_failure)
+    .sort((a, b) => a.id - b.id);
+};
+
+export interface JobFailure {
+  job: GitLabJob;
+  /** Last lines of the log */
+  log: string;
+}
+
+/**
+ * The failed jobs of the latest pipeline of the merge request, with the end
+ * of their logs. Empty if the merge request has no pipeline.
+ * @param lines Lines of log kept per job
+ */
+export const getJobFailures = (lines: number = 20): GitLabOp<JobFailure[]> =>
+  pipe(
+    getMergeRequestPipelines,
+    chain(pipelines =>
+      pipelines.length === 0
+        ? rightRTE<GitLabEnv, GitLabAPIError, GitLabJob[]>([])
+        : getPipelineJobs(Math.max(...pipelines.map(p => p.id)))
+    ),
+    chain(jobs =>
+      array.traverse(readerTaskEitherSeq)(failedJobs(jobs), job =>
+        pipe(
+          getJobTrace(job.id),
+          map(trace => ({ job, log: traceTail(trace, lines) }))
+        )
+      )
+    )
+  );
+
+/** Markdown for a rule result, with the log in a collapsed code block */
+export const formatJobFailure = ({ job, log }: JobFailure): string =>
+  [
+    `Job [${job.name}](${job.web_url}) failed` +
+      (job.failure_reason ? ` (${job.failure_reason.replace(/_/g, " ")})` : ""),
+    "",
+    "<details><summary>End of the log</summary>",
+    "",
+    "```",
+    log,
+    "```",
+    "",
+    "</details>",
+  ].join("\n");
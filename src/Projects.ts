@@ -0,0 +1,100 @@
+// The merge requests of a project, listed with filters, and operations of a
+// single merge request run over each of them.
+import { Either, toError } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import { map as mapTask } from "fp-ts/lib/Task";
+import { rightTask } from "fp-ts/lib/TaskEither";
+import { GitLabAPIError } from "./GitLabAPIError";
+import { GitLabMRSummary } from "./GitLabDSL";
+import { GitLabMRSummaryDecoder } from "./GitLabDecoders";
+import {
+  GitLabEnv,
+  GitLabOp,
+  projectEndpoint,
+  withMetadata,
+} from "./GitLabEnv";
+import { collectPages, Page, paginate, PaginationOptions } from "./Pagination";
+import TE from "./TaskEitherUtils";
+
+export interface MergeRequestFilter {
+  /** GitLab lists merge requests in every state by default */
+  state: GitLabMRSummary["state"] | "all";
+  /** Merge requests with all of the labels */
+  labels: string[];
+  authorUsername: string;
+  targetBranch: string;
+  /** ISO 8601 date */
+  updatedAfter: string;
+  /** Only drafts when `true`, none when `false` */
+  draft: boolean;
+}
+
+const fromMergeRequests = (env: GitLabEnv) =>
+  `${projectEndpoint(env.metadata.repoSlug)}/merge_requests`;
+
+/** Query parameters as GitLab names them, unset filters are left out */
+const toQuery = (filter: Partial<MergeRequestFilter>) => ({
+  state: filter.state,
+  labels: filter.labels && filter.labels.join(","),
+  author_username: filter.authorUsername,
+  target_branch: filter.targetBranch,
+  updated_after: filter.updatedAfter,
+  wip: filter.draft === undefined ? undefined : filter.draft ? "yes" : "no",
+});
+
+/**
+ * Merge requests of the project of the environment, newest first. Not
+ * cached: listing is meant for scans of the whole project.
+ */
+export const listMergeRequestPages = (
+  filter: Partial<MergeRequestFilter> = {},
+  options: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabMRSummary>> =>
+  paginate(
+    "listMergeRequests",
+    fromMergeRequests,
+    GitLabMRSummaryDecoder,
+    options,
+    toQuery(filter)
+  );
+
+export const listMergeRequests = (
+  filter: Partial<MergeRequestFilter> = {},
+  maxItems: number = Infinity
+): GitLabOp<GitLabMRSummary[]> =>
+  pipe(
+    listMergeRequestPages(filter),
+    collectPages(maxItems)
+  );
+
+export interface BatchResult<E, A> {
+  mergeRequest: GitLabMRSummary;
+  result: Either<E, A>;
+}
+
+/**
+ * Run an operation against each merge request, with at most `concurrency`
+ * of them at once. Every merge request gets a result: a failure doesn't stop
+ * the batch. An operation that throws fails with the error thrown, a bug
+ * rather than a `GitLabAPIError` worth retrying.
+ * @param f The operation for a merge request, run with its metadata
+ */
+export const forEachMergeRequest = <A>(
+  f: (mergeRequest: GitLabMRSummary) => GitLabOp<A>,
+  concurrency: number = 4
+) => (
+  mergeRequests: GitLabMRSummary[]
+): GitLabOp<Array<BatchResult<GitLabAPIError | Error, A>>> => env =>
+  pipe(
+    TE.traverseSettled<GitLabAPIError | Error>(concurrency, toError)(
+      (mergeRequest: GitLabMRSummary) =>
+        withMetadata({
+          ...env.metadata,
+          pullRequestID: `${mergeRequest.iid}`,
+        })(f(mergeRequest))(env)
+    )(mergeRequests),
+    mapTask(results =>
+      results.map((result, i) => ({ mergeRequest: mergeRequests[i], result }))
+    ),
+    rightTask
+  );
@@ -0,0 +1,164 @@
+// Posting a rule report: results on a line of the diff become inline
+// discussions, everything else goes into a sticky summary note.
+import { sequenceS } from "fp-ts/lib/Apply";
+import { array, partitionMap } from "fp-ts/lib/Array";
+import { fold, left, right } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import {
+  chain,
+  readerTaskEither,
+  readerTaskEitherSeq,
+  right as rightRTE,
+} from "fp-ts/lib/ReaderTaskEither";
+import { getMergeRequestDiff, positionFor } from "./CommentPosition";
+import { getBotDiscussions } from "./Discussions";
+import { createMergeRequestDiscussion, GitLabOp } from "./GitLabClient";
+import { FileDiff } from "./Diff";
+import {
+  GitLabDiscussion,
+  GitLabDiscussionTextPosition,
+  GitLabMR,
+} from "./GitLabDSL";
+import { Level, Report, ReportEntry } from "./Rules";
+import { StickyResult, upsertStickyNote } from "./StickyComment";
+
+const icons: { [L in Level]: string } = {
+  fail: ":no_entry_sign:",
+  warn: ":warning:",
+  message: ":book:",
+  markdown: "",
+};
+
+const headings: { [L in Level]: string } = {
+  fail: "Fails",
+  warn: "Warnings",
+  message: "Messages",
+  markdown: "",
+};
+
+const location = (entry: ReportEntry): string =>
+  entry.file === undefined
+    ? ""
+    : ` (\`${entry.file}${entry.line === undefined ? "" : `:${entry.line}`}\`)`;
+
+const section = (level: Level, entries: ReportEntry[]): string[] => {
+  const ofLevel = entries.filter(entry => entry.level === level);
+  if (ofLevel.length === 0) {
+    return [];
+  }
+  return [
+    `### ${icons[level]} ${headings[level]}\n\n` +
+      ofLevel.map(entry => `- ${entry.message}${location(entry)}`).join("\n"),
+  ];
+};
+
+/**
+ * Markdown summary of the entries, "" if there are none.
+ */
+export const formatSummary = (entries: ReportEntry[]): string =>
+  [
+    ...section("fail", entries),
+    ...section("warn", entries),
+    ...section("message", entries),
+    ...entries
+      .filter(entry => entry.level === "markdown")
+      .map(entry => entry.message),
+  ].join("\n\n");
+
+export const formatInline = (entry: ReportEntry): string =>
+  entry.level === "markdown"
+    ? entry.message
+    : `${icons[entry.level]} ${entry.message}`;
+
+export interface PostedReport {
+  summary: StickyResult;
+  /** The thread of each inline entry, the existing one if already posted */
+  discussions: GitLabDiscussion[];
+}
+
+export interface InlineEntry {
+  entry: ReportEntry;
+  position: GitLabDiscussionTextPosition;
+}
+
+export interface ReportPlan {
+  /** Body of the sticky summary note, "" to delete it */
+  summary: string;
+  inline: InlineEntry[];
+}
+
+/**
+ * Decide where each entry goes. Entries whose line isn't part of the diff are
+ * listed in the summary instead.
+ */
+export const planReport = (
+  report: Report,
+  mr: Pick<GitLabMR, "diff_refs">,
+  files: FileDiff[]
+): ReportPlan => {
+  const { left: summary, right: inline } = partitionMap((entry: ReportEntry) =>
+    entry.file === undefined || entry.line === undefined
+      ? left<ReportEntry, InlineEntry>(entry)
+      : pipe(
+          positionFor(mr, files)(entry.file, entry.line),
+          fold(
+            () => left<ReportEntry, InlineEntry>(entry),
+            position => right({ entry, position })
+          )
+        )
+  )(report.entries);
+  return { summary: formatSummary(summary), inline };
+};
+
+/**
+ * The thread starts with the body on the same line. Lines are compared
+ * rather than commits, so that a push doesn't post the thread again.
+ */
+const isPostedAt = (body: string, position: GitLabDiscussionTextPosition) => (
+  discussion: GitLabDiscussion
+): boolean => {
+  const [first] = discussion.notes;
+  const posted = first && first.position;
+  return (
+    posted !== undefined &&
+    first.body === body &&
+    posted.new_path === position.new_path &&
+    posted.new_line === position.new_line &&
+    posted.old_line === position.old_line
+  );
+};
+
+/**
+ * Post the report on the merge request, see `planReport`. Inline entries
+ * that the bot already posted on the same line aren't posted again.
+ * @param name Marker of the summary note, see `StickyComment.ts`
+ */
+export const postReport = (
+  report: Report,
+  name: string = "rules"
+): GitLabOp<PostedReport> =>
+  pipe(
+    getMergeRequestDiff,
+    chain(([mr, files]) => {
+      const plan = planReport(report, mr, files);
+      return sequenceS(readerTaskEither)({
+        summary: upsertStickyNote(name, plan.summary),
+        discussions: pipe(
+          getBotDiscussions,
+          chain(posted =>
+            // One at a time, GitLab rate limits notes
+            array.traverse(readerTaskEitherSeq)(
+              plan.inline,
+              ({ entry, position }) => {
+                const body = formatInline(entry);
+                const existing = posted.find(isPostedAt(body, position));
+                return existing
+                  ? rightRTE(existing)
+                  : createMergeRequestDiscussion(body, position);
+              }
+            )
+          )
+        ),
+      });
+    })
+  );
@@ -0,0 +1,276 @@
+// Files of the repository as bytes, with their text when they are text, and
+// the trees listing them. Unlike `getFileContents`, which Danger's
+// `fileContents` expects to return "" for a missing file, a missing file is
+// told apart from an empty one.
+import { sequenceS } from "fp-ts/lib/Apply";
+import { none, Option, some } from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import {
+  chain,
+  map,
+  readerTaskEither,
+  right as rightRTE,
+} from "fp-ts/lib/ReaderTaskEither";
+import { right as rightTE } from "fp-ts/lib/TaskEither";
+import { GitLabAPIError } from "./GitLabAPIError";
+import { GitLabMRChange, GitLabTreeEntry } from "./GitLabDSL";
+import { decodeRepositoryFile, GitLabTreeEntryDecoder } from "./GitLabDecoders";
+import {
+  getMergeRequestChanges,
+  getMergeRequestInfo,
+  isSHA,
+} from "./GitLabClient";
+import {
+  decodeResponse,
+  fileEndpoint,
+  GitLabEnv,
+  GitLabOp,
+  projectEndpoint,
+  request,
+  withRetry,
+} from "./GitLabEnv";
+import { collectPages, Page, paginate, PaginationOptions } from "./Pagination";
+import { cached } from "./RequestCache";
+import TE from "./TaskEitherUtils";
+
+export type FileEncoding = "utf8" | "utf16le" | "utf16be" | "binary";
+
+export interface RepositoryFile {
+  path: string;
+  ref: string;
+  bytes: Buffer;
+  /** See `detectEncoding` */
+  encoding: FileEncoding;
+}
+
+const startsWith = (bytes: Buffer, prefix: number[]) =>
+  prefix.every((byte, i) => bytes[i] === byte);
+
+/**
+ * The encoding of the byte order mark, if any. Otherwise UTF-8 if the bytes
+ * are valid UTF-8 without NUL bytes, Git's test for text, "binary" if not.
+ */
+export const detectEncoding = (bytes: Buffer): FileEncoding => {
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) {
+    return "utf8";
+  }
+  if (startsWith(bytes, [0xff, 0xfe])) {
+    return "utf16le";
+  }
+  if (startsWith(bytes, [0xfe, 0xff])) {
+    return "utf16be";
+  }
+  if (bytes.includes(0)) {
+    return "binary";
+  }
+  // Invalid sequences are decoded as U+FFFD, which doesn't encode back
+  return Buffer.from(bytes.toString("utf8")).equals(bytes) ? "utf8" : "binary";
+};
+
+/** The text of the file without its byte order mark, none if it's binary */
+export const fileText = ({
+  bytes,
+  encoding,
+}: RepositoryFile): Option<string> => {
+  switch (encoding) {
+    case "utf8":
+      return some(bytes.toString("utf8").replace(/^\uFEFF/, ""));
+    case "utf16le":
+      return some(bytes.slice(2).toString("utf16le"));
+    case "utf16be":
+      // Node has no big endian decoder, swap the bytes of each unit
+      return some(
+        Buffer.from(bytes.slice(2, bytes.length - (bytes.length % 2)))
+          .swap16()
+          .toString("utf16le")
+      );
+    case "binary":
+      return none;
+  }
+};
+
+/** The ref, or the head of the merge request */
+const refOrHead = (ref?: string): GitLabOp<string> =>
+  ref
+    ? rightRTE(ref)
+    : pipe(
+        getMergeRequestInfo,
+        map(mr => mr.diff_refs.head_sha)
+      );
+
+/**
+ * A file of the repository. Fails with `NotFound` if the file doesn't exist
+ * at the ref, see `findRepositoryFile`.
+ * @param path Path of the file in the repository
+ * @param slug Project, defaults to the project of the merge request
+ * @param ref Branch or SHA, defaults to the head of the merge request
+ */
+export const getRepositoryFile = (
+  path: string,
+  slug?: string,
+  ref?: string
+): GitLabOp<RepositoryFile> => {
+  const projectId = (env: GitLabEnv) => slug || env.metadata.repoSlug;
+  const endpoint = (env: GitLabEnv) => fileEndpoint(projectId(env), path);
+  return pipe(
+    refOrHead(ref),
+    chain(ref =>
+      pipe(
+        request("getRepositoryFile", endpoint, env =>
+          env.api.RepositoryFiles.show(projectId(env), path, ref)
+        ),
+        decodeResponse(endpoint, decodeRepositoryFile),
+        map(file => {
+          const bytes = Buffer.from(file.content, "base64");
+          return { path, ref, bytes, encoding: detectEncoding(bytes) };
+        }),
+        withRetry,
+        // Not the key of `getFileContents`, which caches a string
+        cached(
+          env => `${endpoint(env)}?ref=${ref}&bytes`,
+          isSHA(ref) ? "immutable" : "mutable"
+        )
+      )
+    )
+  );
+};
+
+/** The file, or none if it doesn't exist, see `getRepositoryFile` */
+export const findRepositoryFile = (
+  path: string,
+  slug?: string,
+  ref?: string
+): GitLabOp<Option<RepositoryFile>> =>
+  pipe(
+    getRepositoryFile(path, slug, ref),
+    map(file => some(file)),
+    op => env =>
+      pipe(
+        op(env),
+        TE.orElseOn("NotFound", () =>
+          rightTE<GitLabAPIError, Option<RepositoryFile>>(none)
+        )
+      )
+  );
+
+export interface TreeOptions {
+  /** Directory to list, the root by default */
+  path: string;
+  /** List the contents of subdirectories too */
+  recursive: boolean;
+}
+
+const defaultTreeOptions: TreeOptions = { path: "", recursive: true };
+
+const fromTree = (env: GitLabEnv) =>
+  `${projectEndpoint(env.metadata.repoSlug)}/repository/tree`;
+
+/**
+ * Entries of a directory of the repository of the merge request, in the
+ * order of GitLab. Fails with `NotFound` for a missing directory.
+ * @param ref Branch or SHA, defaults to the head of the merge request
+ */
+export const getRepositoryTreePages = (
+  ref?: string,
+  options: Partial<TreeOptions> = {},
+  pagination: Partial<PaginationOptions> = {}
+): GitLabOp<Page<GitLabTreeEntry>> => {
+  const { path, recursive } = { ...defaultTreeOptions, ...options };
+  return pipe(
+    refOrHead(ref),
+    chain(ref =>
+      paginate(
+        "getRepositoryTree",
+        fromTree,
+        GitLabTreeEntryDecoder,
+        pagination,
+        {
+          ref,
+          path: path || undefined,
+          recursive,
+        }
+      )
+    )
+  );
+};
+
+export const getRepositoryTree = (
+  ref?: string,
+  options: Partial<TreeOptions> = {}
+): GitLabOp<GitLabTreeEntry[]> => {
+  const { path, recursive } = { ...defaultTreeOptions, ...options };
+  return pipe(
+    refOrHead(ref),
+    chain(ref =>
+      pipe(
+        getRepositoryTreePages(ref, options),
+        collectPages(),
+        cached(
+          env =>
+            `${fromTree(env)}?ref=${ref}&path=${path}&recursive=${recursive}`,
+          isSHA(ref) ? "immutable" : "mutable"
+        )
+      )
+    )
+  );
+};
+
+/** The blobs of the tree, e.g. to find every `package.json` */
+export const treeFiles = (entries: GitLabTreeEntry[]): string[] =>
+  entries.filter(entry => entry.type === "blob").map(entry => entry.path);
+
+export interface FileVersions {
+  /** At `diff_refs.base_sha`, none for a new file */
+  base: Option<RepositoryFile>;
+  /** At `diff_refs.head_sha`, none for a deleted file */
+  head: Option<RepositoryFile>;
+}
+
+const noFile = rightRTE<GitLabEnv, GitLabAPIError, Option<RepositoryFile>>(
+  none
+);
+
+const readVersions = (
+  basePath: string | null,
+  headPath: string | null
+): GitLabOp<FileVersions> =>
+  pipe(
+    getMergeRequestInfo,
+    chain(({ diff_refs }) =>
+      sequenceS(readerTaskEither)({
+        base:
+          basePath === null
+            ? noFile
+            : findRepositoryFile(basePath, undefined, diff_refs.base_sha),
+        head:
+          headPath === null
+            ? noFile
+            : findRepositoryFile(headPath, undefined, diff_refs.head_sha),
+      })
+    )
+  );
+
+/** The file before and after a change of the merge request, renames included */
+export const getChangeVersions = (
+  change: GitLabMRChange
+): GitLabOp<FileVersions> =>
+  readVersions(
+    change.new_file ? null : change.old_path,
+    change.deleted_file ? null : change.new_path
+  );
+
+/**
+ * The file before and after the merge request, e.g. to compare the
+ * dependencies of `package.json`. A file renamed by the merge request is
+ * found by its old or new path.
+ */
+export const getFileVersions = (path: string): GitLabOp<FileVersions> =>
+  pipe(
+    getMergeRequestChanges,
+    chain(changes => {
+      const change =
+        changes.find(c => c.new_path === path) ||
+        changes.find(c => c.old_path === path);
+      return change ? getChangeVersions(change) : readVersions(path, path);
+    })
+  );
@@ -0,0 +1,126 @@
+// Memoization of GitLab reads for the lifetime of a run.
+// GitLab's REST API only sends ETags for a few polling endpoints, so mutable
+// resources are revalidated after a TTL instead of with `If-None-Match`.
+import { Either, isRight, right } from "fp-ts/lib/Either";
+import { GitLabAPIError } from "./GitLabAPIError";
+import { GitLabEnv, GitLabOp } from "./GitLabEnv";
+import { Clock, systemClock } from "./TaskEitherUtils";
+
+/**
+ * "immutable" results are kept until invalidated, e.g. a file at a SHA.
+ * "mutable" results are refetched after the TTL, e.g. the merge request.
+ */
+export type Freshness = "immutable" | "mutable";
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface RequestCache {
+  /** Lifetime of mutable results in milliseconds */
+  readonly ttlMs: number;
+  readonly clock: Clock;
+  readonly entries: Map<string, Entry>;
+  /** Pending requests, shared between concurrent callers */
+  readonly inFlight: Map<string, Promise<Either<GitLabAPIError, unknown>>>;
+}
+
+export const createCache = (
+  ttlMs: number = 60000,
+  clock: Clock = systemClock
+): RequestCache => ({
+  ttlMs,
+  clock,
+  entries: new Map(),
+  inFlight: new Map(),
+});
+
+/**
+ * Memoize the successful result of an operation, and share a pending
+ * request between callers with the same key. Failures are not cached.
+ * Does nothing if the environment has no cache.
+ * @param key Cache key, usually the endpoint and query
+ */
+export const cached = (
+  key: (env: GitLabEnv) => string,
+  freshness: Freshness
+) => <A>(op: GitLabOp<A>): GitLabOp<A> => env => () => {
+  const { cache } = env;
+  if (!cache) {
+    return op(env)();
+  }
+  const k = key(env);
+  const entry = cache.entries.get(k);
+  if (entry && entry.expiresAt > cache.clock.now()) {
+    env.log("debug", "cache hit", { key: k });
+    return Promise.resolve(right(entry.value as A));
+  }
+  const pending = cache.inFlight.get(k);
+  if (pending) {
+    env.log("debug", "cache join", { key: k });
+    return pending as Promise<Either<GitLabAPIError, A>>;
+  }
+  const request = op(env)().then(result => {
+    // Don't store a result that was invalidated while it was being fetched
+    if (cache.inFlight.get(k) === request) {
+      cache.inFlight.delete(k);
+      if (isRight(result)) {
+        cache.entries.set(k, {
+          value: result.right,
+          expiresAt:
+            freshness === "immutable"
+              ? Infinity
+              : cache.clock.now() + cache.ttlMs,
+        });
+      }
+    }
+    return result;
+  });
+  cache.inFlight.set(k, request);
+  return request;
+};
+
+type Prefix = (env: GitLabEnv) => string;
+
+/** The key is the path, a path below it, or the path with a query */
+const isUnder = (path: string) => (k: string): boolean =>
+  k === path ||
+  (k.startsWith(path) && (k[path.length] === "/" || k[path.length] === "?"));
+
+const drop = (env: GitLabEnv, prefixes: Prefix[]) => {
+  const { cache } = env;
+  if (!cache) {
+    return;
+  }
+  const matches = (k: string) =>
+    prefixes.some(prefix => isUnder(prefix(env))(k));
+  [cache.entries, cache.inFlight].forEach((map: Map<string, unknown>) =>
+    Array.from(map.keys())
+      .filter(matches)
+      .forEach(k => map.delete(k))
+  );
+};
+
+/**
+ * Forget every cached result under one of the paths, e.g. "/projects/1"
+ * covers "/projects/1/notes" but not "/projects/10".
+ */
+export const invalidate = (
+  ...prefixes: Prefix[]
+): GitLabOp<void> => env => () => {
+  drop(env, prefixes);
+  return Promise.resolve(right(undefined));
+};
+
+/**
+ * Invalidate after a write, whether it succeeded or not: a request that
+ * timed out may still have been applied.
+ */
+export const invalidating = (...prefixes: Prefix[]) => <A>(
+  op: GitLabOp<A>
+): GitLabOp<A> => env => () =>
+  op(env)().then(result => {
+    drop(env, prefixes);
+    return result;
+  });
@@ -0,0 +1,176 @@
+// The SDK's HTTP client, rewritten to pass an AbortSignal to fetch: the SDK's
+// own requester has no way to cancel a request.
+import ky, { HTTPError } from "ky-universal";
+import { Requester } from "gitlab/dist/infrastructure";
+import { ResponseHeaders } from "./GitLabAPIError";
+
+/** The fields of an SDK service used to send a request */
+interface Service {
+  url: string;
+  headers: { [header: string]: string };
+  requestTimeout: number;
+  /** Set by `signalling` */
+  signal?: AbortSignal;
+}
+
+interface RequestOptions {
+  query?: { [key: string]: unknown };
+  body?: unknown;
+  sudo?: string | number;
+}
+
+/**
+ * The SDK with services whose requests are sent with the signal, by the
+ * requester of `createRequester`. The SDK passes its service to every
+ * request, the next pages of a list included.
+ */
+export const signalling = <T extends object>(
+  api: T,
+  signal: AbortSignal
+): T => {
+  const services = new Map<PropertyKey, unknown>();
+  return new Proxy(api, {
+    get: (target, key) => {
+      const service: unknown = Reflect.get(target, key);
+      if (service === null || typeof service !== "object") {
+        return service;
+      }
+      if (!services.has(key)) {
+        services.set(
+          key,
+          Object.create(service, { signal: { value: signal } })
+        );
+      }
+      return services.get(key);
+    },
+  });
+};
+
+const snakeCase = (key: string): string =>
+  key.replace(/([a-z\d])([A-Z])/g, "$1_$2").toLowerCase();
+
+/** Keys are sent in snake_case, except ALL_CAPS ones such as variables */
+const decamelizeKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decamelizeKeys);
+  }
+  if (value !== null && typeof value === "object") {
+    const fields = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+    Object.keys(fields).forEach(key => {
+      result[/^[A-Z0-9]+_*/.test(key) ? key : snakeCase(key)] = decamelizeKeys(
+        fields[key]
+      );
+    });
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Keys are sent in snake_case, nested ones too, and arrays as
+ * `key[]=a&key[]=b`, as the SDK does
+ */
+const searchParams = (query: { [key: string]: unknown }): string => {
+  const params = new URLSearchParams();
+  Object.keys(query).forEach(key => {
+    const value = decamelizeKeys(query[key]);
+    const name = snakeCase(key);
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(`${name}[]`, String(item)));
+    } else if (value !== undefined && value !== null) {
+      params.append(name, String(value));
+    }
+  });
+  return params.toString();
+};
+
+const headersToObject = (headers: Headers): ResponseHeaders => {
+  const result: ResponseHeaders = {};
+  headers.forEach((value, name) => {
+    result[name.toLowerCase()] = value;
+  });
+  return result;
+};
+
+/** A FormData of the browser, or of the form-data package the SDK uses */
+const isFormData = (body: unknown): boolean =>
+  (typeof FormData !== "undefined" && body instanceof FormData) ||
+  (typeof body === "object" &&
+    body !== null &&
+    typeof (body as { getBoundary?: unknown }).getBoundary === "function");
+
+const readBody = (response: Response): Promise<unknown> =>
+  response.text().then(text => {
+    if (!(response.headers.get("content-type") || "").includes("json")) {
+      return text;
+    }
+    try {
+      return JSON.parse(text || "{}");
+    } catch (e) {
+      return {};
+    }
+  });
+
+/**
+ * A requester for `new Gitlab({ requester })` behaving like the SDK's, whose
+ * requests can be aborted, see `signalling`.
+ */
+export const createRequester = (): Requester => {
+  const send = (method: "get" | "post" | "put" | "delete") => (
+    service: Service,
+    endpoint: string,
+    options: RequestOptions = {}
+  ) => {
+    const headers = new Headers(service.headers);
+    if (options.sudo) {
+      headers.append("sudo", `${options.sudo}`);
+    }
+    const { body } = options;
+    const json = body !== null && typeof body === "object" && !isFormData(body);
+    if (json) {
+      headers.append("content-type", "application/json");
+    }
+    return ky(endpoint, {
+      method,
+      headers,
+      body: json ? JSON.stringify(decamelizeKeys(body)) : (body as BodyInit),
+      searchParams: searchParams(options.query || {}),
+      prefixUrl: service.url,
+      timeout: service.requestTimeout,
+      signal: service.signal,
+    } as Parameters<typeof ky>[1]).then(
+      (response: Response) =>
+        readBody(response).then(responseBody => ({
+          body: responseBody,
+          headers: headersToObject(response.headers),
+          status: response.status,
+        })),
+      (error: unknown) => {
+        if (!(error instanceof HTTPError)) {
+          throw error;
+        }
+        // Keep GitLab's message as the SDK does, see `fromUnknown`
+        return readBody(error.response).then(message => {
+          const fields = message as { error?: unknown; message?: unknown };
+          throw Object.assign(error, {
+            description:
+              message !== null && typeof message === "object"
+                ? fields.error || fields.message
+                : message,
+          });
+        });
+      }
+    );
+  };
+
+  return {
+    get: send("get"),
+    post: send("post"),
+    put: send("put"),
+    delete: send("delete"),
+    // The SDK's requester streams with a GET too: the ky it bundles ignores
+    // the `onProgress` it passes, so the response is read as for `get`
+    stream: send("get"),
+  };
+};
@@ -0,0 +1,334 @@
+// Review metrics of merge requests: how long reviewers take to answer, how
+// many rounds a review needs and how long threads stay open. Computed from
+// the timeline of Timeline.ts, exported as CSV or JSON for a batch of merge
+// requests.
+import { sequenceS } from "fp-ts/lib/Apply";
+import { array } from "fp-ts/lib/Array";
+import {
+  map,
+  readerTaskEither,
+  readerTaskEitherSeq,
+} from "fp-ts/lib/ReaderTaskEither";
+import { pipe } from "fp-ts/lib/pipeable";
+import { isResolved } from "./Discussions";
+import {
+  GitLabDiscussion,
+  GitLabMR,
+  GitLabMRCommit,
+  GitLabNote,
+} from "./GitLabDSL";
+import {
+  getMergeRequestCommits,
+  getMergeRequestDiscussions,
+  getMergeRequestInfo,
+  getMergeRequestNotes,
+  GitLabOp,
+  withMetadata,
+} from "./GitLabClient";
+import { buildTimeline } from "./Timeline";
+
+export interface ReviewInput {
+  mr: GitLabMR;
+  commits: GitLabMRCommit[];
+  notes: GitLabNote[];
+  discussions: GitLabDiscussion[];
+}
+
+export interface ReviewAnalyticsOptions {
+  /** Usernames whose notes aren't reviews, e.g. the user of a bot token */
+  ignoredUsers: string[];
+}
+
+const defaultOptions: ReviewAnalyticsOptions = { ignoredUsers: [] };
+
+export interface ReviewerStats {
+  username: string;
+  /** Comments, on the diff or not */
+  comments: number;
+  /** From the creation of the merge request to the reviewer's first comment */
+  firstCommentMs: number | null;
+  /** Threads on the diff started by the reviewer */
+  threadsStarted: number;
+  threadsResolved: number;
+  /** Approved, and didn't take it back */
+  approved: boolean;
+}
+
+export interface ReviewReport {
+  iid: number;
+  title: string;
+  author: string;
+  createdAt: string;
+  mergedAt: string | null;
+  /** From the creation of the merge request to the first review comment */
+  firstCommentMs: number | null;
+  /** Groups of review comments separated by new commits */
+  reviewRounds: number;
+  /** From the last approval to `merged_at` */
+  approvalToMergeMs: number | null;
+  /** Resolvable threads on the diff */
+  threads: number;
+  resolvedThreads: number;
+  /**
+   * From the first note of a resolved thread to its resolution. GitLab
+   * doesn't return when a thread was resolved, the last update of its notes
+   * is used instead: editing a note after the resolution moves it.
+   */
+  medianResolutionMs: number | null;
+  maxResolutionMs: number | null;
+  reviewers: ReviewerStats[];
+}
+
+interface Thread {
+  starter: string;
+  openedAt: number;
+  /** `undefined` while a note of the thread is unresolved */
+  resolvedAt?: number;
+  resolver?: string;
+}
+
+const elapsed = (from: string, to: string): number =>
+  Date.parse(to) - Date.parse(from);
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Resolvable threads on the diff, see `medianResolutionMs` */
+const threadsOf = (discussions: GitLabDiscussion[]): Thread[] =>
+  discussions
+    .filter(
+      ({ individual_note, notes }) =>
+        !individual_note &&
+        notes.length > 0 &&
+        notes[0].position !== undefined &&
+        notes.some(note => note.resolvable)
+    )
+    .map(discussion => {
+      const { notes } = discussion;
+      const [first] = notes;
+      const resolved = isResolved(discussion);
+      const resolvedBy = notes.find(note => Boolean(note.resolved_by));
+      return {
+        starter: first.author.username,
+        openedAt: Date.parse(first.created_at),
+        resolvedAt: resolved
+          ? Math.max(...notes.map(note => Date.parse(note.updated_at)))
+          : undefined,
+        resolver:
+          resolved && resolvedBy && resolvedBy.resolved_by
+            ? resolvedBy.resolved_by.username
+            : undefined,
+      };
+    });
+
+/** The metrics of a merge request */
+export const reviewReport = (
+  options: Partial<ReviewAnalyticsOptions> = {}
+) => ({ mr, commits, notes, discussions }: ReviewInput): ReviewReport => {
+  const { ignoredUsers } = { ...defaultOptions, ...options };
+  const isReviewer = (username: string) =>
+    username !== mr.author.username && !ignoredUsers.includes(username);
+  const timeline = buildTimeline(notes, commits);
+  const threads = threadsOf(discussions);
+
+  const reviewers = new Map<string, ReviewerStats>();
+  const reviewer = (username: string): ReviewerStats => {
+    const known = reviewers.get(username);
+    if (known) {
+      return known;
+    }
+    const stats: ReviewerStats = {
+      username,
+      comments: 0,
+      firstCommentMs: null,
+      threadsStarted: 0,
+      threadsResolved: 0,
+      approved: false,
+    };
+    reviewers.set(username, stats);
+    return stats;
+  };
+
+  let firstCommentMs: number | null = null;
+  let reviewRounds = 0;
+  let pushedSinceComment = true;
+  let lastApproval: string | null = null;
+  timeline.forEach(({ at, actor, event }) => {
+    switch (event._tag) {
+      case "Commit":
+      case "CommitsAdded":
+        pushedSinceComment = true;
+        break;
+      case "Comment":
+        if (isReviewer(actor)) {
+          const stats = reviewer(actor);
+          const sinceCreation = elapsed(mr.created_at, at);
+          stats.comments++;
+          if (stats.firstCommentMs === null) {
+            stats.firstCommentMs = sinceCreation;
+          }
+          if (firstCommentMs === null) {
+            firstCommentMs = sinceCreation;
+          }
+          if (pushedSinceComment) {
+            reviewRounds++;
+            pushedSinceComment = false;
+          }
+        }
+        break;
+      case "Approved":
+        lastApproval = at;
+        if (isReviewer(actor)) {
+          reviewer(actor).approved = true;
+        }
+        break;
+      case "Unapproved":
+        if (isReviewer(actor)) {
+          reviewer(actor).approved = false;
+        }
+        break;
+    }
+  });
+  threads.forEach(thread => {
+    if (isReviewer(thread.starter)) {
+      reviewer(thread.starter).threadsStarted++;
+    }
+    if (thread.resolver !== undefined && isReviewer(thread.resolver)) {
+      reviewer(thread.resolver).threadsResolved++;
+    }
+  });
+
+  const resolutions = threads
+    .filter(thread => thread.resolvedAt !== undefined)
+    .map(thread => (thread.resolvedAt as number) - thread.openedAt);
+  return {
+    iid: mr.iid,
+    title: mr.title,
+    author: mr.author.username,
+    createdAt: mr.created_at,
+    mergedAt: mr.merged_at,
+    firstCommentMs,
+    reviewRounds,
+    approvalToMergeMs:
+      lastApproval !== null && mr.merged_at !== null
+        ? elapsed(lastApproval, mr.merged_at)
+        : null,
+    threads: threads.length,
+    resolvedThreads: resolutions.length,
+    medianResolutionMs: median(resolutions),
+    maxResolutionMs: resolutions.length === 0 ? null : Math.max(...resolutions),
+    reviewers: Array.from(reviewers.values()).sort((a, b) =>
+      a.username.localeCompare(b.username)
+    ),
+  };
+};
+
+export const getReviewReport = (
+  options: Partial<ReviewAnalyticsOptions> = {}
+): GitLabOp<ReviewReport> =>
+  pipe(
+    sequenceS(readerTaskEither)({
+      mr: getMergeRequestInfo,
+      commits: getMergeRequestCommits,
+      notes: getMergeRequestNotes,
+      discussions: getMergeRequestDiscussions,
+    }),
+    map(reviewReport(options))
+  );
+
+/**
+ * The reports of merge requests of the project of the environment, one after
+ * the other.
+ * @param iids Internal ids of the merge requests
+ */
+export const getReviewReports = (
+  iids: number[],
+  options: Partial<ReviewAnalyticsOptions> = {}
+): GitLabOp<ReviewReport[]> => env =>
+  array.traverse(readerTaskEitherSeq)(iids, iid =>
+    withMetadata({ ...env.metadata, pullRequestID: `${iid}` })(
+      getReviewReport(options)
+    )
+  )(env);
+
+type CSVValue = string | number | boolean | null;
+
+const csvField = (value: CSVValue): string => {
+  const text = value === null ? "" : `${value}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = (header: string[], rows: CSVValue[][]): string =>
+  [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") +
+  "\r\n";
+
+/** One row per merge request, empty cells for missing durations */
+export const reviewReportsToCSV = (reports: ReviewReport[]): string =>
+  toCSV(
+    [
+      "iid",
+      "title",
+      "author",
+      "created_at",
+      "merged_at",
+      "first_comment_ms",
+      "review_rounds",
+      "approval_to_merge_ms",
+      "threads",
+      "resolved_threads",
+      "median_resolution_ms",
+      "max_resolution_ms",
+      "reviewers",
+    ],
+    reports.map(report => [
+      report.iid,
+      report.title,
+      report.author,
+      report.createdAt,
+      report.mergedAt,
+      report.firstCommentMs,
+      report.reviewRounds,
+      report.approvalToMergeMs,
+      report.threads,
+      report.resolvedThreads,
+      report.medianResolutionMs,
+      report.maxResolutionMs,
+      report.reviewers.map(stats => stats.username).join(" "),
+    ])
+  );
+
+/** One row per reviewer of each merge request */
+export const reviewerStatsToCSV = (reports: ReviewReport[]): string =>
+  toCSV(
+    [
+      "iid",
+      "reviewer",
+      "comments",
+      "first_comment_ms",
+      "threads_started",
+      "threads_resolved",
+      "approved",
+    ],
+    array.chain(reports, report =>
+      report.reviewers.map(stats => [
+        report.iid,
+        stats.username,
+        stats.comments,
+        stats.firstCommentMs,
+        stats.threadsStarted,
+        stats.threadsResolved,
+        stats.approved,
+      ])
+    )
+  );
+
+export const reviewReportsToJSON = (reports: ReviewReport[]): string =>
+  JSON.stringify(reports, null, 2);
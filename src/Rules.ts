@@ -0,0 +1,96 @@
+// A small rule engine for merge request checks, in the spirit of Danger's
+// fail/warn/message/markdown.
+import { array, flatten } from "fp-ts/lib/Array";
+import { fold } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import { map, Task, task } from "fp-ts/lib/Task";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+import { GitLabDSL } from "./GitLabDSL";
+
+export type Level = "fail" | "warn" | "message" | "markdown";
+
+export interface RuleResult {
+  level: Level;
+  /** Markdown */
+  message: string;
+  /** Path of a file in the new version of the MR */
+  file?: string;
+  line?: number;
+}
+
+export interface Rule {
+  /** Shown in the report when the rule itself fails */
+  name: string;
+  check: (dsl: GitLabDSL) => TaskEither<unknown, RuleResult[]>;
+}
+
+export interface ReportEntry extends RuleResult {
+  /** Name of the rule that produced the result */
+  rule: string;
+}
+
+export interface Report {
+  entries: ReportEntry[];
+  /** No entry has the "fail" level */
+  passed: boolean;
+}
+
+const resultOf = (level: Level) => (
+  message: string,
+  file?: string,
+  line?: number
+): RuleResult =>
+  file === undefined ? { level, message } : { level, message, file, line };
+
+export const fail = resultOf("fail");
+export const warn = resultOf("warn");
+export const message = resultOf("message");
+export const markdown = resultOf("markdown");
+
+const describeError = (e: unknown): string =>
+  e instanceof Error ? e.message : String(e);
+
+const ruleFailure = (rule: Rule, e: unknown): ReportEntry => ({
+  rule: rule.name,
+  level: "fail",
+  message: `Rule "${rule.name}" failed: ${describeError(e)}`,
+});
+
+/**
+ * Run a rule, turning a `Left`, a thrown error or a rejected promise into a
+ * failure of its own.
+ */
+export const runRule = (dsl: GitLabDSL) => (
+  rule: Rule
+): Task<ReportEntry[]> => () => {
+  const isolate = (e: unknown) => [ruleFailure(rule, e)];
+  try {
+    return rule
+      .check(dsl)()
+      .then(
+        fold(isolate, results =>
+          results.map(result => ({ ...result, rule: rule.name }))
+        ),
+        isolate
+      );
+  } catch (e) {
+    return Promise.resolve(isolate(e));
+  }
+};
+
+export const toReport = (entries: ReportEntry[]): Report => ({
+  entries,
+  passed: entries.every(entry => entry.level !== "fail"),
+});
+
+/**
+ * Run the rules concurrently. Never fails: broken rules are reported.
+ */
+export const runRules = (rules: Rule[]) => (dsl: GitLabDSL): Task<Report> =>
+  pipe(
+    array.traverse(task)(rules, runRule(dsl)),
+    map(entries => toReport(flatten(entries)))
+  );
+
+export const entriesOfLevel = (level: Level) => (report: Report) =>
+  report.entries.filter(entry => entry.level === level);
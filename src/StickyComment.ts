@@ -0,0 +1,91 @@
+// A single note per tool that is updated on every run instead of posting a
+// new one. The note is found by a hidden HTML comment at its start.
+import { pipe } from "fp-ts/lib/pipeable";
+import { fold, Option } from "fp-ts/lib/Option";
+import { chain, map, right as rightRTE } from "fp-ts/lib/ReaderTaskEither";
+import { GitLabNote } from "./GitLabDSL";
+import {
+  createMergeRequestNote,
+  deleteMergeRequestNote,
+  getMergeRequestNotePages,
+  getUser,
+  GitLabOp,
+  updateMergeRequestNote,
+} from "./GitLabClient";
+import { findInPages } from "./Pagination";
+
+/**
+ * Hidden marker identifying a sticky note.
+ * @param name Distinguishes the notes of different tools on the same MR
+ */
+export const marker = (name: string): string => `<!-- fp-gitlab:${name} -->`;
+
+/** The body as posted, with the marker on the first line */
+export const withMarker = (name: string, body: string): string =>
+  `${marker(name)}\n${body}`;
+
+export type StickyResult =
+  | { readonly _tag: "Created"; readonly note: GitLabNote }
+  | { readonly _tag: "Updated"; readonly note: GitLabNote }
+  | { readonly _tag: "Unchanged"; readonly note: GitLabNote }
+  | { readonly _tag: "Deleted"; readonly id: number }
+  /** Empty report and no note to delete */
+  | { readonly _tag: "Absent" };
+
+/**
+ * The sticky note with this name, written by the user of the API token.
+ * Notes are fetched page by page until it is found.
+ */
+export const findStickyNote = (name: string): GitLabOp<Option<GitLabNote>> =>
+  pipe(
+    getUser,
+    chain(user =>
+      pipe(
+        getMergeRequestNotePages(),
+        findInPages(
+          (note: GitLabNote) =>
+            !note.system &&
+            note.author.id === user.id &&
+            note.body.includes(marker(name))
+        )
+      )
+    )
+  );
+
+/**
+ * Create, update or delete the sticky note so that it shows `body`. An empty
+ * body deletes the note.
+ */
+export const upsertStickyNote = (
+  name: string,
+  body: string
+): GitLabOp<StickyResult> => {
+  const empty = body.trim() === "";
+  const content = withMarker(name, body);
+  return pipe(
+    findStickyNote(name),
+    chain(
+      fold<GitLabNote, GitLabOp<StickyResult>>(
+        () =>
+          empty
+            ? rightRTE({ _tag: "Absent" })
+            : pipe(
+                createMergeRequestNote(content),
+                map((note): StickyResult => ({ _tag: "Created", note }))
+              ),
+        existing =>
+          empty
+            ? pipe(
+                deleteMergeRequestNote(existing.id),
+                map((): StickyResult => ({ _tag: "Deleted", id: existing.id }))
+              )
+            : existing.body === content
+            ? rightRTE({ _tag: "Unchanged", note: existing })
+            : pipe(
+                updateMergeRequestNote(existing.id, content),
+                map((note): StickyResult => ({ _tag: "Updated", note }))
+              )
+      )
+    )
+  );
+};
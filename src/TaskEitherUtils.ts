@@ -5,14 +5,47 @@ import {
   tryCatch,
   map,
   fromEither,
+  orElse,
+  left,
 } from "fp-ts/lib/TaskEither";
-import { Either, toError } from "fp-ts/lib/Either";
+import { Task } from "fp-ts/lib/Task";
+import {
+  Either,
+  either,
+  fold,
+  getValidation,
+  isLeft,
+  isRight,
+  left as leftEither,
+  mapLeft,
+  toError,
+} from "fp-ts/lib/Either";
+import { array } from "fp-ts/lib/Array";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import { Semigroup } from "fp-ts/lib/Semigroup";
+import { pipe } from "fp-ts/lib/pipeable";
+import { DecodeError } from "./Decoder";
+import {
+  Cases,
+  decode,
+  fold as foldGitLabAPIError,
+  fromUnknown,
+  GitLabAPIError,
+} from "./GitLabAPIError";
+import { LogFields, Logger, summarize as summarizeValue } from "./Logging";
 
-function logValueWith(logger: (firstArg: any, ...args: any[]) => void) {
-  return <A>(logString: String) =>
-    map((obj: A) => {
-      logger(logString, obj);
-      return obj;
+/**
+ * Log the value of a successful computation at the debug level.
+ * @param summarize Fields logged instead of the value, its size or id by default
+ */
+function logValueWith(logger: Logger) {
+  return <A>(
+    message: string,
+    summarize: (a: A) => LogFields = summarizeValue
+  ) =>
+    map((a: A) => {
+      logger("debug", message, summarize(a));
+      return a;
     });
 }
 
@@ -27,9 +60,18 @@ function fromThunk<A>(thunk: Lazy<Promise<A>>): TaskEither<Error, A> {
   return tryCatch(thunk, toError);
 }
 
-function chainEither<A, B>(
-  f: (a: A) => Either<Error, B>
-): (ma: TaskEither<Error, A>) => TaskEither<Error, B> {
+/**
+ * Like `fromThunk`, but classifies the failure as a `GitLabAPIError`.
+ * @param endpoint Request path used in the error, e.g. "/user"
+ */
+function fromRequest(endpoint: string) {
+  return <A>(thunk: Lazy<Promise<A>>): TaskEither<GitLabAPIError, A> =>
+    tryCatch(thunk, fromUnknown(endpoint));
+}
+
+function chainEither<E, A, B>(
+  f: (a: A) => Either<E, B>
+): (ma: TaskEither<E, A>) => TaskEither<E, B> {
   return chain(
     flow(
       f,
@@ -38,8 +80,344 @@ function chainEither<A, B>(
   );
 }
 
+/**
+ * Validate a response, turning a `DecodeError` into a `Decode` error that
+ * keeps the raw response.
+ */
+function chainDecode<A, B>(
+  endpoint: string,
+  f: (a: A) => Either<DecodeError, B>
+): (ma: TaskEither<GitLabAPIError, A>) => TaskEither<GitLabAPIError, B> {
+  return chainEither(body =>
+    pipe(
+      f(body),
+      mapLeft(e => decode(endpoint, e, body))
+    )
+  );
+}
+
+type Tag = GitLabAPIError["_tag"];
+
+/**
+ * Recover from one kind of error, e.g. turn a `NotFound` into a default value.
+ */
+function orElseOn<T extends Tag, A>(
+  tag: T,
+  f: (e: Extract<GitLabAPIError, { _tag: T }>) => TaskEither<GitLabAPIError, A>
+): (ma: TaskEither<GitLabAPIError, A>) => TaskEither<GitLabAPIError, A> {
+  return orElse(e =>
+    e._tag === tag
+      ? f(e as Extract<GitLabAPIError, { _tag: T }>)
+      : left<GitLabAPIError, A>(e)
+  );
+}
+
+/**
+ * Run to a `Task` that never fails, matching every error case.
+ */
+function foldError<A, R>(
+  cases: Cases<R>,
+  onRight: (a: A) => R
+): (ma: TaskEither<GitLabAPIError, A>) => Task<R> {
+  return ma => () => ma().then(fold(foldGitLabAPIError(cases), onRight));
+}
+
+/**
+ * Source of time, injectable so that tests don't have to wait.
+ */
+export interface Clock {
+  /** Milliseconds since the epoch */
+  now: () => number;
+  /** Resolves early when the signal is aborted */
+  sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        if (signal) {
+          signal.removeEventListener("abort", wake);
+        }
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      if (signal) {
+        signal.addEventListener("abort", wake);
+      }
+    }),
+};
+
+export interface RetryPolicy<E> {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Fraction of the delay that is randomized: 0 for none, 1 for full jitter */
+  jitter: number;
+  isRetryable: (e: E) => boolean;
+  /**
+   * Delay requested by the server, e.g. from a `Retry-After` header.
+   * Used instead of the exponential delay when defined.
+   */
+  retryAfterMs?: (e: E, now: number) => number | undefined;
+  clock: Clock;
+  /** Returns a number in [0, 1) */
+  random: () => number;
+  /**
+   * Time of `clock` after which no retry starts: the last failure is
+   * returned instead of sleeping past it.
+   */
+  deadline?: number;
+}
+
+/**
+ * Delay before retry number `attempt` (0 for the first retry), or
+ * `undefined` if the server asks us to wait longer than `maxDelayMs`.
+ */
+function retryDelay<E>(
+  policy: RetryPolicy<E>,
+  e: E,
+  attempt: number
+): number | undefined {
+  const requested = policy.retryAfterMs
+    ? policy.retryAfterMs(e, policy.clock.now())
+    : undefined;
+  if (requested !== undefined) {
+    return requested > policy.maxDelayMs ? undefined : Math.max(requested, 0);
+  }
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt)
+  );
+  return exponential * (1 - policy.jitter * policy.random());
+}
+
+/**
+ * Re-run a TaskEither on retryable failures, waiting with exponential
+ * backoff between attempts. The last failure is returned when attempts run out.
+ */
+function retrying<E>(
+  policy: RetryPolicy<E>
+): <A>(ma: TaskEither<E, A>) => TaskEither<E, A> {
+  return <A>(ma: TaskEither<E, A>) => {
+    const attempt = (n: number): Promise<Either<E, A>> =>
+      ma().then(result => {
+        if (
+          isRight(result) ||
+          n + 1 >= policy.maxAttempts ||
+          !policy.isRetryable(result.left)
+        ) {
+          return result;
+        }
+        const delay = retryDelay(policy, result.left, n);
+        return delay === undefined ||
+          (policy.deadline !== undefined &&
+            policy.clock.now() + delay >= policy.deadline)
+          ? result
+          : policy.clock.sleep(delay).then(() => attempt(n + 1));
+      });
+    return () => attempt(0);
+  };
+}
+
+/**
+ * Call `run` on every item with at most `n` calls pending at once. No more
+ * items are started once `halt` holds for a result. Results are in the order
+ * of the items, with holes for the items that were not started.
+ * A call that throws or rejects is turned into a result by `recover`. Without
+ * it, no more items are started and the pool rejects with the first error
+ * once the pending calls have settled.
+ */
+function pool<A, R>(
+  n: number,
+  items: A[],
+  run: (a: A) => Promise<R>,
+  halt: (r: R) => boolean,
+  recover?: (e: unknown) => R
+): Promise<R[]> {
+  const limit = Math.max(1, Math.floor(n));
+  return new Promise((resolve, reject) => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let pending = 0;
+    let halted = false;
+    let failure: { error: unknown } | undefined;
+    const launch = () => {
+      while (!halted && pending < limit && next < items.length) {
+        const i = next++;
+        pending++;
+        Promise.resolve()
+          .then(() => run(items[i]))
+          .then(
+            r => {
+              results[i] = r;
+              halted = halted || halt(r);
+            },
+            e => {
+              if (recover) {
+                results[i] = recover(e);
+                halted = halted || halt(results[i]);
+              } else {
+                failure = failure || { error: e };
+                halted = true;
+              }
+            }
+          )
+          .then(() => {
+            pending--;
+            launch();
+          });
+      }
+      if (pending === 0) {
+        if (failure) {
+          reject(failure.error);
+        } else {
+          resolve(results);
+        }
+      }
+    };
+    launch();
+  });
+}
+
+const present = <R>(results: R[]): R[] => results.filter(r => r !== undefined);
+
+/**
+ * Like `array.traverse(taskEither)`, with at most `n` tasks running at once.
+ * Stops starting tasks after a failure, and returns the failure of the first
+ * item that failed. Rejects if a task throws or rejects, like `array.traverse`.
+ */
+function traverseWithConcurrency(n: number) {
+  return <E, A, B>(f: (a: A) => TaskEither<E, B>) => (
+    as: A[]
+  ): TaskEither<E, B[]> => () =>
+    pool(n, as, a => f(a)(), isLeft).then(results =>
+      array.sequence(either)(present(results))
+    );
+}
+
+/**
+ * Run the tasks with at most `n` of them running at once, see
+ * `traverseWithConcurrency`.
+ */
+function sequenceWithConcurrency(n: number) {
+  return <E, A>(tasks: Array<TaskEither<E, A>>): TaskEither<E, A[]> =>
+    traverseWithConcurrency(n)((task: TaskEither<E, A>) => task)(tasks);
+}
+
+/**
+ * Like `traverseWithConcurrency`, but runs every task and combines all the
+ * failures with the semigroup, e.g. `getMonoid<GitLabAPIError>()` from
+ * fp-ts/lib/Array to keep them all.
+ */
+function traverseValidation<E>(S: Semigroup<E>, n: number) {
+  return <A, B>(f: (a: A) => TaskEither<E, B>) => (
+    as: A[]
+  ): TaskEither<E, B[]> => () =>
+    pool(n, as, a => f(a)(), () => false).then(results =>
+      array.sequence(getValidation(S))(results)
+    );
+}
+
+/**
+ * Like `traverseWithConcurrency`, but runs every task and keeps the result of
+ * each one, so that a failure doesn't stop the other items. A task that
+ * throws or rejects fails with `onThrow` of the error.
+ */
+function traverseSettled<E>(n: number, onThrow: (e: unknown) => E) {
+  return <A, B>(f: (a: A) => TaskEither<E, B>) => (
+    as: A[]
+  ): Task<Array<Either<E, B>>> => () =>
+    pool(
+      n,
+      as,
+      a => f(a)(),
+      () => false,
+      (e): Either<E, B> => leftEither(onThrow(e))
+    );
+}
+
+/**
+ * The result of the first task to finish, successful or not. The other tasks
+ * keep running: a TaskEither can't be cancelled.
+ */
+function race<E, A>(tasks: NonEmptyArray<TaskEither<E, A>>): TaskEither<E, A> {
+  return () => Promise.race(tasks.map(task => task()));
+}
+
+/**
+ * The result of the first task to succeed, or all the failures combined with
+ * the semigroup, in the order of the tasks. If none succeeds and a task threw
+ * or rejected, rejects with the first error, as `pool` does.
+ */
+function firstSuccess<E>(S: Semigroup<E>) {
+  return <A>(tasks: NonEmptyArray<TaskEither<E, A>>): TaskEither<E, A> => () =>
+    new Promise((resolve, reject) => {
+      const failures: E[] = new Array(tasks.length);
+      let remaining = tasks.length;
+      let thrown: { error: unknown } | undefined;
+      const settle = () => {
+        remaining--;
+        if (remaining > 0) {
+          return;
+        }
+        if (thrown) {
+          reject(thrown.error);
+        } else {
+          resolve(leftEither(failures.reduce(S.concat)));
+        }
+      };
+      tasks.forEach((task, i) =>
+        Promise.resolve()
+          .then(task)
+          .then(
+            result => {
+              if (isRight(result)) {
+                resolve(result);
+                return;
+              }
+              failures[i] = result.left;
+              settle();
+            },
+            e => {
+              thrown = thrown || { error: e };
+              settle();
+            }
+          )
+      );
+    });
+}
+
+/**
+ * Run and return the result as a promise that rejects on failure, for
+ * callers using async/await.
+ */
+function toPromise<E>(
+  onLeft: (e: E) => Error
+): <A>(ma: TaskEither<E, A>) => Promise<A> {
+  return ma =>
+    ma().then(fold(e => Promise.reject(onLeft(e)), a => Promise.resolve(a)));
+}
+
 export default {
   logValueWith,
   fromThunk,
+  fromRequest,
   chainEither,
+  chainDecode,
+  orElseOn,
+  foldError,
+  retrying,
+  traverseWithConcurrency,
+  sequenceWithConcurrency,
+  traverseValidation,
+  traverseSettled,
+  race,
+  firstSuccess,
+  toPromise,
 };
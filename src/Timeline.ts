@@ -0,0 +1,243 @@
+// What happened on a merge request, in order: commits, comments, and the
+// system notes GitLab writes for every other change, parsed from their text.
+import { sequenceS } from "fp-ts/lib/Apply";
+import { findFirstMap } from "fp-ts/lib/Array";
+import {
+  chain as chainOption,
+  fromNullable,
+  getOrElse,
+  map as mapOption,
+  none,
+  Option,
+  some,
+} from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import { map, readerTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import { GitLabMRCommit, GitLabNote } from "./GitLabDSL";
+import {
+  getMergeRequestCommits,
+  getMergeRequestNotes,
+  GitLabOp,
+} from "./GitLabClient";
+
+export type TimelineEvent =
+  /** A commit of the merge request, at its `committed_date` */
+  | { readonly _tag: "Commit"; readonly commit: GitLabMRCommit }
+  /** A note written by someone, not by GitLab */
+  | { readonly _tag: "Comment"; readonly note: GitLabNote }
+  | {
+      readonly _tag: "CommitsAdded";
+      readonly count: number;
+      /** Short SHAs listed in the note, GitLab elides long lists */
+      readonly shas: string[];
+    }
+  | { readonly _tag: "DescriptionChanged" }
+  | {
+      readonly _tag: "TitleChanged";
+      readonly from: string;
+      readonly to: string;
+    }
+  | {
+      readonly _tag: "LabelsChanged";
+      readonly added: string[];
+      readonly removed: string[];
+    }
+  | {
+      readonly _tag: "AssigneesChanged";
+      /** Usernames, without `@` */
+      readonly assigned: string[];
+      readonly unassigned: string[];
+    }
+  /** `null` when the milestone is removed */
+  | { readonly _tag: "MilestoneChanged"; readonly milestone: string | null }
+  | { readonly _tag: "DraftChanged"; readonly draft: boolean }
+  | { readonly _tag: "Approved" }
+  | { readonly _tag: "Unapproved" }
+  | { readonly _tag: "ThreadsResolved" }
+  /** Referenced from an issue, a commit or another merge request */
+  | { readonly _tag: "Mentioned"; readonly in: string }
+  | { readonly _tag: "Merged" }
+  | { readonly _tag: "Closed" }
+  | { readonly _tag: "Reopened" }
+  /** A system note this parser doesn't know, kept as is */
+  | { readonly _tag: "Unrecognized"; readonly body: string };
+
+export interface TimelineEntry {
+  /** ISO 8601 date */
+  at: string;
+  /** Username of the note's author, or name of the committer */
+  actor: string;
+  event: TimelineEvent;
+}
+
+type Parser = (body: string) => Option<TimelineEvent>;
+
+const exactly = (text: RegExp, event: TimelineEvent): Parser => body =>
+  text.test(body) ? some(event) : none;
+
+const matching = (
+  text: RegExp,
+  f: (match: RegExpExecArray) => Option<TimelineEvent>
+): Parser => body =>
+  pipe(
+    fromNullable(text.exec(body)),
+    chainOption(f)
+  );
+
+/** `~bug ~"needs review"` */
+const labelNames = (text: string): string[] =>
+  (text.match(/~"[^"]+"|~\S+/g) || []).map(label =>
+    label.replace(/^~"?|"$/g, "")
+  );
+
+const usernames = (text: string): string[] =>
+  (text.match(/@[\w.-]+/g) || []).map(user => user.slice(1));
+
+/**
+ * Parts of a note such as "added ~a and removed ~b labels", each starting
+ * with one of the verbs.
+ */
+const parts = (text: string, verbs: string[]) =>
+  text.split(new RegExp(` and (?=(?:${verbs.join("|")}) )`)).map(part => {
+    const verb = verbs.find(candidate => part.startsWith(`${candidate} `));
+    return verb === undefined
+      ? undefined
+      : { verb, rest: part.slice(verb.length + 1) };
+  });
+
+const parseLabels: Parser = matching(
+  /^((?:added|removed) .+) labels?$/,
+  ([, text]) => {
+    const added: string[] = [];
+    const removed: string[] = [];
+    for (const part of parts(text, ["added", "removed"])) {
+      const labels = part === undefined ? [] : labelNames(part.rest);
+      if (part === undefined || labels.length === 0) {
+        return none;
+      }
+      (part.verb === "added" ? added : removed).push(...labels);
+    }
+    return some({ _tag: "LabelsChanged", added, removed });
+  }
+);
+
+const parseAssignees: Parser = matching(
+  /^((?:assigned to|unassigned|reassigned to) @.+)$/,
+  ([, text]) => {
+    const assigned: string[] = [];
+    const unassigned: string[] = [];
+    for (const part of parts(text, [
+      "assigned to",
+      "unassigned",
+      "reassigned to",
+    ])) {
+      const users = part === undefined ? [] : usernames(part.rest);
+      if (part === undefined || users.length === 0) {
+        return none;
+      }
+      (part.verb === "unassigned" ? unassigned : assigned).push(...users);
+    }
+    return some({ _tag: "AssigneesChanged", assigned, unassigned });
+  }
+);
+
+// "changed title from **Add {-foo-}** to **Add {+bar+}**"
+const parseTitle: Parser = matching(
+  /^changed title from \*\*(.*)\*\* to \*\*(.*)\*\*$/,
+  ([, from, to]) =>
+    some({
+      _tag: "TitleChanged",
+      from: from.replace(/\{\+.*?\+\}/g, "").replace(/\{-(.*?)-\}/g, "$1"),
+      to: to.replace(/\{-.*?-\}/g, "").replace(/\{\+(.*?)\+\}/g, "$1"),
+    })
+);
+
+// "added 2 commits\n\n<ul><li>1a2b3c4d - Title</li>...</ul>"
+const parseCommits: Parser = body =>
+  pipe(
+    fromNullable(/^added (\d+) (?:new )?commits?\b/.exec(body)),
+    mapOption(([, count]) => ({
+      _tag: "CommitsAdded" as const,
+      count: Number(count),
+      shas: (body.match(/\b[0-9a-f]{7,40}(?= - )/g) || []).filter(
+        (sha, index, shas) => shas.indexOf(sha) === index
+      ),
+    }))
+  );
+
+const parsers: Parser[] = [
+  parseCommits,
+  exactly(/^changed the description$/, { _tag: "DescriptionChanged" }),
+  parseTitle,
+  parseLabels,
+  parseAssignees,
+  matching(/^changed milestone to %(?:"(.+)"|(\S+))$/, ([, quoted, plain]) =>
+    some({ _tag: "MilestoneChanged", milestone: quoted || plain })
+  ),
+  exactly(/^removed (?:the )?milestone\b/, {
+    _tag: "MilestoneChanged",
+    milestone: null,
+  }),
+  exactly(
+    /^marked (?:this merge request )?as (?:a )?\**(?:work in progress|draft)\**/i,
+    { _tag: "DraftChanged", draft: true }
+  ),
+  exactly(
+    /^(?:unmarked as a \**work in progress\**|marked (?:this merge request )?as \**ready\**)/i,
+    { _tag: "DraftChanged", draft: false }
+  ),
+  exactly(/^approved this merge request$/, { _tag: "Approved" }),
+  exactly(/^unapproved this merge request$/, { _tag: "Unapproved" }),
+  exactly(/^resolved all (?:threads|discussions)$/, {
+    _tag: "ThreadsResolved",
+  }),
+  matching(/^mentioned in (.+)$/, ([, reference]) =>
+    some({ _tag: "Mentioned", in: reference })
+  ),
+  exactly(/^merged$/, { _tag: "Merged" }),
+  exactly(/^closed$/, { _tag: "Closed" }),
+  exactly(/^reopened$/, { _tag: "Reopened" }),
+];
+
+/** The event of a system note, `Unrecognized` if its text isn't known */
+export const parseSystemNote = (body: string): TimelineEvent => {
+  const text = body.trim();
+  return pipe(
+    parsers,
+    findFirstMap(parse => parse(text)),
+    getOrElse<TimelineEvent>(() => ({ _tag: "Unrecognized", body }))
+  );
+};
+
+const fromNote = (note: GitLabNote): TimelineEntry => ({
+  at: note.created_at,
+  actor: note.author.username,
+  event: note.system ? parseSystemNote(note.body) : { _tag: "Comment", note },
+});
+
+const fromCommit = (commit: GitLabMRCommit): TimelineEntry => ({
+  at: commit.committed_date,
+  actor: commit.committer_name,
+  event: { _tag: "Commit", commit },
+});
+
+/**
+ * Commits and notes, oldest first. At the same time, commits come before
+ * notes, and notes keep the order of the API.
+ */
+export const buildTimeline = (
+  notes: GitLabNote[],
+  commits: GitLabMRCommit[]
+): TimelineEntry[] =>
+  [...commits.map(fromCommit), ...notes.map(fromNote)]
+    .map((entry, index) => ({ entry, index, time: Date.parse(entry.at) }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ entry }) => entry);
+
+export const getMergeRequestTimeline: GitLabOp<TimelineEntry[]> = pipe(
+  sequenceS(readerTaskEither)({
+    notes: getMergeRequestNotes,
+    commits: getMergeRequestCommits,
+  }),
+  map(({ notes, commits }) => buildTimeline(notes, commits))
+);
@@ -0,0 +1,155 @@
+// Time limits and cancellation. An operation can be given a timeout, and the
+// environment can carry a deadline and an AbortSignal that every request of
+// GitLabEnv.ts observes. Requests are aborted, not only abandoned, when the
+// SDK uses the requester of Requester.ts. Time is measured with the clock of
+// the retry policy.
+import { Either, left } from "fp-ts/lib/Either";
+import { local } from "fp-ts/lib/ReaderTaskEither";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+import { aborted, GitLabAPIError, timeout } from "./GitLabAPIError";
+import { GitLabEnv, GitLabOp } from "./GitLabEnv";
+import { signalling } from "./Requester";
+
+/**
+ * A signal aborted with any of the signals, for an operation nested in
+ * another one.
+ */
+const linked = (signals: Array<AbortSignal | undefined>) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const present = signals.filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  present.forEach(signal =>
+    signal.aborted ? abort() : signal.addEventListener("abort", abort)
+  );
+  return {
+    controller,
+    release: () =>
+      present.forEach(signal => signal.removeEventListener("abort", abort)),
+  };
+};
+
+/**
+ * Run with at most `limitMs` milliseconds, then fail with the error of
+ * `onTimeout` and abort the signal passed to the run. Fails with `Aborted`
+ * as soon as the signal of the environment is aborted.
+ */
+const limited = <A>(
+  env: GitLabEnv,
+  limitMs: number,
+  onTimeout: (elapsedMs: number) => GitLabAPIError,
+  onAbort: () => GitLabAPIError,
+  run: (signal: AbortSignal) => Promise<Either<GitLabAPIError, A>>
+): Promise<Either<GitLabAPIError, A>> => {
+  const { clock } = env.retry;
+  const start = clock.now();
+  if (env.signal && env.signal.aborted) {
+    return Promise.resolve(left(onAbort()));
+  }
+  if (limitMs <= 0) {
+    return Promise.resolve(left(onTimeout(0)));
+  }
+  const { controller, release } = linked([env.signal]);
+  // Aborted once settled, to stop the timer
+  const settled = new AbortController();
+  return new Promise<Either<GitLabAPIError, A>>((resolve, reject) => {
+    const finish = () => {
+      settled.abort();
+      if (env.signal) {
+        env.signal.removeEventListener("abort", onParentAbort);
+      }
+      release();
+    };
+    const onParentAbort = () => {
+      finish();
+      resolve(left(onAbort()));
+    };
+    if (env.signal) {
+      env.signal.addEventListener("abort", onParentAbort);
+    }
+    if (limitMs !== Infinity) {
+      clock.sleep(limitMs, settled.signal).then(() => {
+        if (!settled.signal.aborted) {
+          finish();
+          resolve(left(onTimeout(clock.now() - start)));
+          controller.abort();
+        }
+      });
+    }
+    run(controller.signal).then(
+      result => {
+        finish();
+        resolve(result);
+      },
+      error => {
+        finish();
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Fail with `Timeout` if the operation takes longer than `ms`, including its
+ * retries, and abort its pending requests.
+ * @param operation Name carried by the error
+ */
+export const withTimeout = (ms: number, operation: string) => <A>(
+  op: GitLabOp<A>
+): GitLabOp<A> => env => () =>
+  limited(
+    env,
+    ms,
+    elapsedMs => timeout(operation, elapsedMs),
+    () => aborted(operation),
+    signal => op({ ...env, signal })()
+  );
+
+/**
+ * Fail every request of the operation that would end after `at`, a time of
+ * the retry policy's clock, e.g. `Date.now() + 60000`. An earlier deadline
+ * of the environment is kept.
+ */
+export const withDeadline = (at: number) => <A>(op: GitLabOp<A>): GitLabOp<A> =>
+  local((env: GitLabEnv) => ({
+    ...env,
+    deadline: env.deadline === undefined ? at : Math.min(env.deadline, at),
+  }))(op);
+
+/**
+ * Abort the requests of the operation when the signal is aborted, e.g. when
+ * the CI job is cancelled.
+ */
+export const withSignal = (signal: AbortSignal) => <A>(
+  op: GitLabOp<A>
+): GitLabOp<A> => env => () => {
+  const { controller, release } = linked([env.signal, signal]);
+  return op({ ...env, signal: controller.signal })().then(result => {
+    release();
+    return result;
+  });
+};
+
+/**
+ * Send a request within the deadline and with the signal of the environment.
+ * @param name Operation name carried by a `Timeout`
+ * @param endpoint Request path carried by an `Aborted`
+ * @param send Sends the request with the SDK of the environment it's given
+ */
+export const bounded = (env: GitLabEnv, name: string, endpoint: string) => <A>(
+  send: (env: GitLabEnv) => TaskEither<GitLabAPIError, A>
+): TaskEither<GitLabAPIError, A> => () => {
+  if (env.deadline === undefined && env.signal === undefined) {
+    return send(env)();
+  }
+  return limited(
+    env,
+    env.deadline === undefined
+      ? Infinity
+      : env.deadline - env.retry.clock.now(),
+    elapsedMs => timeout(name, elapsedMs),
+    () => aborted(endpoint),
+    signal => send({ ...env, api: signalling(env.api, signal) })()
+  );
+};
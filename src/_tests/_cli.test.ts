@@ -0,0 +1,98 @@
+import { resolve } from "path";
+import { left, right } from "fp-ts/lib/Either";
+import { IO, main, parseArgs } from "../cli";
+
+const fixtures = resolve(__dirname, "fixtures");
+
+const run = async (args: string[], env: IO["env"] = {}) => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await main(args, {
+    env,
+    cwd: __dirname,
+    stdout: line => stdout.push(line),
+    stderr: line => stderr.push(line),
+  });
+  return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+};
+
+const offline = [
+  "review",
+  "--project",
+  "gitlab-org/gitlab-ce",
+  "--mr=27117",
+  "--rules",
+  "./fixtures/rules",
+  "--from-fixtures",
+  fixtures,
+];
+
+describe("parseArgs", () => {
+  it("parses the review command", () => {
+    expect(
+      parseArgs(["review", "--project", "a/b", "--mr=3", "--dry-run", "--json"])
+    ).toEqual(
+      right({
+        project: "a/b",
+        mr: "3",
+        rules: "./rules",
+        dryRun: true,
+        json: true,
+      })
+    );
+  });
+
+  it("rejects unknown commands, options and missing values", () => {
+    expect(parseArgs([])).toEqual(left("Missing command"));
+    expect(parseArgs(["lint"])).toEqual(left("Unknown command: lint"));
+    expect(parseArgs(["review", "--force"])).toEqual(
+      left("Unknown option: --force")
+    );
+    expect(parseArgs(["review", "--mr"])).toEqual(
+      left("Missing value for --mr")
+    );
+  });
+});
+
+describe("main", () => {
+  it("runs the rules against recorded responses", async () => {
+    const { code, stdout } = await run(offline);
+    expect(code).toBe(1);
+    expect(stdout).toContain(
+      "Would comment on danger/roulette/Dangerfile:3: :no_entry_sign: Check the roulette"
+    );
+    expect(stdout).toContain(
+      "FAIL Check the roulette (danger/roulette/Dangerfile:3) [dangerfile]"
+    );
+    expect(stdout).toContain("Failed: 1 failures, 0 warnings, 1 messages");
+  });
+
+  it("prints the report as JSON", async () => {
+    const { stdout } = await run([...offline, "--json"]);
+    const output = JSON.parse(stdout);
+    expect(output.passed).toBe(false);
+    expect(output.entries.map((e: any) => e.rule)).toEqual([
+      "title",
+      "dangerfile",
+    ]);
+    expect(output.published.inline).toHaveLength(1);
+    expect(output.published.summary).toMatch(/^### :book: Messages/);
+  });
+
+  it("exits with 2 when the merge request is unknown", async () => {
+    const { code, stderr } = await run(
+      ["review", "--rules", "./fixtures/rules"],
+      {
+        CI_JOB_TOKEN: "token",
+      }
+    );
+    expect(code).toBe(2);
+    expect(stderr).toContain("CI_PROJECT_PATH");
+  });
+
+  it("exits with 2 when the rules can't be loaded", async () => {
+    const { code, stderr } = await run([...offline, "--rules", "./missing"]);
+    expect(code).toBe(2);
+    expect(stderr).toContain("Cannot load rules");
+  });
+});
@@ -0,0 +1,135 @@
+import { left, right } from "fp-ts/lib/Either";
+import {
+  createInlineComment,
+  positionFor,
+  positionErrorMessage,
+  targetFor,
+} from "../CommentPosition";
+import { parseChanges } from "../Diff";
+import { GitLabMRChange } from "../GitLabDSL";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const mr = loadResponse("getMergeRequestInfo");
+const changes = loadResponse("getMergeRequestChanges");
+const files = parseChanges(changes.changes);
+const dangerfile = "danger/roulette/Dangerfile";
+
+const shas = {
+  base_sha: mr.diff_refs.base_sha,
+  start_sha: mr.diff_refs.start_sha,
+  head_sha: mr.diff_refs.head_sha,
+};
+
+describe("CommentPosition", () => {
+  it("positions an added line", () => {
+    expect(positionFor(mr, files)(dangerfile, 3)).toEqual(
+      right({
+        position_type: "text",
+        ...shas,
+        old_path: dangerfile,
+        new_path: dangerfile,
+        old_line: null,
+        new_line: 3,
+      })
+    );
+  });
+
+  it("computes the old line of a context line", () => {
+    expect(positionFor(mr, files)(dangerfile, 31)).toEqual(
+      right(expect.objectContaining({ old_line: 29, new_line: 31 }))
+    );
+  });
+
+  it("positions a removed line on the old side", () => {
+    expect(positionFor(mr, files)(dangerfile, 32, "old")).toEqual(
+      right(expect.objectContaining({ old_line: 32, new_line: null }))
+    );
+  });
+
+  it("uses both paths of a renamed file", () => {
+    const renamed: GitLabMRChange = {
+      old_path: "old.rb",
+      new_path: "new.rb",
+      a_mode: "100644",
+      b_mode: "100644",
+      diff: "@@ -1,2 +1,2 @@\n a\n-b\n+c\n",
+      new_file: false,
+      renamed_file: true,
+      deleted_file: false,
+    };
+    expect(positionFor(mr, parseChanges([renamed]))("old.rb", 2)).toEqual(
+      right(
+        expect.objectContaining({
+          old_path: "old.rb",
+          new_path: "new.rb",
+          new_line: 2,
+        })
+      )
+    );
+  });
+
+  it("rejects lines outside of the diff", () => {
+    const result = positionFor(mr, files)(dangerfile, 30);
+    expect(result).toEqual(
+      left({ _tag: "LineNotInDiff", path: dangerfile, line: 30, side: "new" })
+    );
+    expect(
+      positionErrorMessage({ _tag: "FileNotInDiff", path: "a.rb" })
+    ).toEqual("a.rb is not part of the diff");
+  });
+
+  it("falls back to the file, then to the merge request", () => {
+    const target = targetFor(mr, files);
+    expect(target(dangerfile, 3)._tag).toEqual("Line");
+    expect(target(dangerfile, 30)).toEqual({
+      _tag: "File",
+      path: dangerfile,
+      line: 30,
+    });
+    expect(target("README.md", 1)).toEqual({ _tag: "General" });
+  });
+
+  describe("createInlineComment", () => {
+    const note = loadResponse("getMergeRequestNotes")[0];
+    const commentEnv = () =>
+      stubEnv({
+        MergeRequests: {
+          show: jest.fn(() => Promise.resolve(mr)),
+          changes: jest.fn(() => Promise.resolve(changes)),
+        },
+        MergeRequestDiscussions: {
+          create: jest.fn(() =>
+            Promise.resolve({
+              id: "abc",
+              individual_note: false,
+              notes: [note],
+            })
+          ),
+        },
+        MergeRequestNotes: { create: jest.fn(() => Promise.resolve(note)) },
+      });
+
+    it("starts a discussion on a line of the diff", async () => {
+      const env = commentEnv();
+      const result = await createInlineComment(dangerfile, 3, "Nice")(env)();
+      expect(result).toEqual(right(note));
+      expect(env.api.MergeRequestDiscussions.create).toHaveBeenCalledWith(
+        "gitlab-org/gitlab-ce",
+        "27117",
+        "Nice",
+        { position: expect.objectContaining({ new_line: 3, old_line: null }) }
+      );
+    });
+
+    it("writes a note naming the file for other lines", async () => {
+      const env = commentEnv();
+      await createInlineComment(dangerfile, 30, "Nice")(env)();
+      expect(env.api.MergeRequestDiscussions.create).not.toHaveBeenCalled();
+      expect(env.api.MergeRequestNotes.create).toHaveBeenCalledWith(
+        "gitlab-org/gitlab-ce",
+        "27117",
+        `\`${dangerfile}\` line 30:\n\nNice`
+      );
+    });
+  });
+});
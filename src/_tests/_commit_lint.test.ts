@@ -0,0 +1,122 @@
+import { resolve } from "path";
+import { readFileSync } from "fs";
+import { right } from "fp-ts/lib/Either";
+import {
+  CommitCheck,
+  commitLintRule,
+  lintCommit,
+  lintCommits,
+} from "../CommitLint";
+import { buildCommit } from "../FakeGitLab";
+import { GitLabDSL } from "../GitLabDSL";
+
+const commits = JSON.parse(
+  readFileSync(
+    resolve(__dirname, "fixtures", "getMergeRequestCommits.json")
+  ).toString()
+)[0].response;
+
+const checks = (title: string, overrides = {}): CommitCheck[] =>
+  lintCommit()(
+    buildCommit({ title, message: `${title}\n`, ...overrides })
+  ).violations.map(v => v.check);
+
+describe("CommitLint", () => {
+  it("accepts Conventional Commits", () => {
+    expect(checks("feat(danger): pick reviewers by branch")).toEqual([]);
+    expect(checks("fix!: drop the roulette")).toEqual([]);
+  });
+
+  it("checks the type and the scope", () => {
+    expect(checks("Pick reviewers")).toEqual(["type"]);
+    expect(checks("feature: pick reviewers")).toEqual(["type"]);
+    const scoped = lintCommit({ scopes: ["danger"], requireScope: true });
+    expect(scoped(buildCommit({ title: "fix(ci): retry" })).violations).toEqual(
+      [
+        {
+          check: "scope",
+          message: "Unknown scope `ci`, use one of danger",
+        },
+      ]
+    );
+    expect(
+      scoped(buildCommit({ title: "fix: retry" })).violations.map(v => v.check)
+    ).toEqual(["scope"]);
+  });
+
+  it("checks the length of the title and the body", () => {
+    expect(checks(`fix: ${"a".repeat(70)}`)).toEqual(["subject-length"]);
+    expect(
+      checks("fix: wrap", { message: `fix: wrap\n\n${"word ".repeat(30)}` })
+    ).toEqual(["body-length"]);
+    expect(
+      checks("fix: link", {
+        message: `fix: link\n\nhttps://gitlab.com/${"a".repeat(120)}`,
+      })
+    ).toEqual([]);
+    expect(checks("fix: wrap", { message: "fix: wrap\nbody" })).toEqual([
+      "body-separator",
+    ]);
+  });
+
+  it("flags autosquash, WIP and merge commits", () => {
+    expect(checks("fixup! fix: wrap")).toEqual(["autosquash"]);
+    expect(checks("squash! fix: wrap")).toEqual(["autosquash"]);
+    expect(checks("WIP: roulette")).toEqual(["wip"]);
+    expect(checks("[WIP] roulette")).toEqual(["wip"]);
+    expect(checks("Draft: roulette")).toEqual(["wip"]);
+    expect(
+      checks("Merge branch 'master' into roulette", {
+        parent_ids: ["a", "b"],
+      })
+    ).toEqual(["merge"]);
+    expect(
+      lintCommit({ forbidMergeCommits: false })(
+        buildCommit({ title: "Merge branch 'master'", parent_ids: ["a", "b"] })
+      ).violations
+    ).toEqual([]);
+  });
+
+  it("checks the author email domain", () => {
+    const lint = lintCommit({ allowedEmailDomains: ["gitlab.com"] });
+    expect(
+      lint(buildCommit({ title: "fix: a", author_email: "a@dev.gitlab.com" }))
+        .violations
+    ).toEqual([]);
+    expect(
+      lint(buildCommit({ title: "fix: a", author_email: "a@example.com" }))
+        .violations
+    ).toEqual([
+      {
+        check: "email-domain",
+        message: "Author email domain `example.com` is not one of gitlab.com",
+      },
+    ]);
+  });
+
+  it("returns a result per commit", () => {
+    const results = lintCommits({ conventional: false })(commits);
+    expect(results.map(({ sha, violations }) => ({ sha, violations }))).toEqual(
+      [{ sha: "28531ab4", violations: [] }, { sha: "575ec3af", violations: [] }]
+    );
+  });
+
+  it("reports violations as rule results", async () => {
+    const dsl = ({ commits } as unknown) as GitLabDSL;
+    const result = await commitLintRule({ level: "warn" }).check(dsl)();
+    expect(result).toEqual(
+      right([
+        {
+          level: "warn",
+          message:
+            "`28531ab4` Title doesn't follow Conventional Commits: `type(scope): subject`",
+        },
+        {
+          level: "warn",
+          message:
+            "`575ec3af` Title doesn't follow Conventional Commits: `type(scope): subject`",
+        },
+      ])
+    );
+  });
+});
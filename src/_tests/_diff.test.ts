@@ -0,0 +1,169 @@
+import { none, some } from "fp-ts/lib/Option";
+import {
+  addedLinesIn,
+  diffLines,
+  findFile,
+  findNewLine,
+  isNewLineInDiff,
+  parseChange,
+  parseChanges,
+  parseHunks,
+  removedLines,
+} from "../Diff";
+import { GitLabMRChange } from "../GitLabDSL";
+import { loadResponse } from "./_fixtures";
+
+const change = (fields: Partial<GitLabMRChange>): GitLabMRChange => ({
+  old_path: "a.txt",
+  new_path: "a.txt",
+  a_mode: "100644",
+  b_mode: "100644",
+  diff: "",
+  new_file: false,
+  renamed_file: false,
+  deleted_file: false,
+  ...fields,
+});
+
+describe("Diff", () => {
+  const changes: GitLabMRChange[] = loadResponse("getMergeRequestChanges")
+    .changes;
+  const files = parseChanges(changes);
+  const dangerfile = "danger/roulette/Dangerfile";
+
+  it("parses the hunks of the fixture", () => {
+    const [file] = files;
+    expect(file.status).toEqual("modified");
+    expect(
+      file.hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])
+    ).toEqual([
+      [1, 5, 1, 7],
+      [29, 17, 31, 22],
+      [65, 6, 72, 12],
+      [79, 7, 92, 7],
+    ]);
+    expect(file.hunks[1].section).toEqual(
+      "Please consider creating a merge request to"
+    );
+  });
+
+  it("numbers the lines", () => {
+    const [first] = files[0].hunks;
+    expect(first.lines.slice(1, 4)).toEqual([
+      {
+        kind: "context",
+        content: "",
+        oldLine: 2,
+        newLine: 2,
+        noNewlineAtEnd: false,
+      },
+      {
+        kind: "added",
+        content: "require 'digest/md5'",
+        oldLine: null,
+        newLine: 3,
+        noNewlineAtEnd: false,
+      },
+      {
+        kind: "added",
+        content: "",
+        oldLine: null,
+        newLine: 4,
+        noNewlineAtEnd: false,
+      },
+    ]);
+    expect(removedLines(files[0])[0]).toEqual({
+      kind: "removed",
+      content: "def spin(team, project, category)",
+      oldLine: 32,
+      newLine: null,
+      noNewlineAtEnd: false,
+    });
+  });
+
+  it("keeps the line counts of each hunk", () => {
+    files[0].hunks.forEach(hunk => {
+      const old = hunk.lines.filter(l => l.kind !== "added").length;
+      const added = hunk.lines.filter(l => l.kind !== "removed").length;
+      expect([old, added]).toEqual([hunk.oldLines, hunk.newLines]);
+    });
+  });
+
+  it("finds added lines and lines inside the diff", () => {
+    expect(addedLinesIn(files, dangerfile).map(l => l.newLine)).toEqual([
+      3,
+      4,
+      34,
+      35,
+      36,
+      42,
+      43,
+      45,
+      48,
+      49,
+      75,
+      76,
+      77,
+      78,
+      79,
+      80,
+      95,
+    ]);
+    expect(addedLinesIn(files, "missing.rb")).toEqual([]);
+    expect(isNewLineInDiff(files, dangerfile, 31)).toBe(true);
+    expect(isNewLineInDiff(files, dangerfile, 30)).toBe(false);
+    expect(isNewLineInDiff(files, "missing.rb", 31)).toBe(false);
+  });
+
+  it("marks a missing newline at the end of the file", () => {
+    const hunks = parseHunks(
+      "@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n"
+    );
+    expect(hunks[0].lines.map(l => [l.kind, l.noNewlineAtEnd])).toEqual([
+      ["context", false],
+      ["removed", true],
+      ["added", true],
+    ]);
+  });
+
+  it("defaults hunk line counts to 1", () => {
+    const [hunk] = parseHunks("@@ -3 +3 @@\n-a\n+b\n");
+    expect([hunk.oldLines, hunk.newLines]).toEqual([1, 1]);
+    expect(hunk.lines.map(l => [l.oldLine, l.newLine])).toEqual([
+      [3, null],
+      [null, 3],
+    ]);
+  });
+
+  it("recognizes binary files", () => {
+    const file = parseChange(
+      change({
+        old_path: "logo.png",
+        new_path: "logo.png",
+        diff: "Binary files a/logo.png and b/logo.png differ\n",
+      })
+    );
+    expect([file.binary, file.hunks]).toEqual([true, []]);
+  });
+
+  it("finds renamed files by either path", () => {
+    const renamed = parseChanges([
+      change({
+        old_path: "old.txt",
+        new_path: "new.txt",
+        renamed_file: true,
+        diff: "@@ -1 +1 @@\n-a\n+b\n",
+      }),
+    ]);
+    expect(renamed[0].status).toEqual("renamed");
+    expect(findFile(renamed, "old.txt")).toEqual(some(renamed[0]));
+    expect(findFile(renamed, "new.txt")).toEqual(some(renamed[0]));
+  });
+
+  it("recognizes mode-only changes", () => {
+    const file = parseChange(change({ b_mode: "100755" }));
+    expect(file.modeOnly).toBe(true);
+    expect(diffLines(file)).toEqual([]);
+    expect(findNewLine(file, 1)).toEqual(none);
+  });
+});
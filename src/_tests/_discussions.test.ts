@@ -0,0 +1,129 @@
+import { right } from "fp-ts/lib/Either";
+import { createInlineComment } from "../CommentPosition";
+import { findBotDiscussions, isOnLine, isResolved } from "../Discussions";
+import {
+  buildChange,
+  buildMergeRequest,
+  buildUser,
+  fakeEnv,
+} from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import {
+  getMergeRequestDiscussions,
+  replyToDiscussion,
+  resolveDiscussion,
+  unresolveDiscussion,
+} from "../GitLabClient";
+import { GitLabDiscussion } from "../GitLabDSL";
+import { fakeMetadata as metadata, seededFake } from "./_fixtures";
+
+const diff = "@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n";
+const bot = buildUser({ id: 1, username: "bot" });
+const human = buildUser({ id: 2, username: "human" });
+
+const seeded = () =>
+  seededFake({ changes: [buildChange("letters.txt", diff)] }, { user: bot })
+    .fake;
+
+/** Starts a thread on a line as the given user */
+const comment = async (
+  fake: ReturnType<typeof seeded>,
+  user: typeof bot,
+  line: number,
+  body: string
+) => {
+  fake.state.user = user;
+  await createInlineComment("letters.txt", line, body)(
+    fakeEnv(fake, metadata)
+  )();
+  fake.state.user = bot;
+};
+
+const threadOf = (result: unknown): GitLabDiscussion =>
+  (result as { right: GitLabDiscussion[] }).right[0];
+
+describe("Discussions", () => {
+  it("creates a discussion through GitLabAPI", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    const discussion = await api.createMergeRequestDiscussion("Why B?", {
+      position_type: "text",
+      ...buildMergeRequest().diff_refs,
+      old_path: "letters.txt",
+      new_path: "letters.txt",
+      old_line: null,
+      new_line: 2,
+    });
+    expect(discussion).toMatchObject({
+      individual_note: false,
+      notes: [{ body: "Why B?", author: { id: bot.id } }],
+    });
+    expect(await api.getMergeRequestDiscussions()).toEqual([discussion]);
+  });
+
+  it("replies to, resolves and unresolves a thread", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    await comment(fake, bot, 2, "Why B?");
+    const { id } = threadOf(await getMergeRequestDiscussions(env)());
+
+    const reply = await replyToDiscussion(id, "Fixed?")(env)();
+    expect(reply).toMatchObject(right({ body: "Fixed?", resolved: false }));
+    const resolved = await resolveDiscussion(id)(env)();
+    expect(resolved).toMatchObject(
+      right({ id, notes: [{ resolved: true }, { resolved: true }] })
+    );
+    expect(isResolved(threadOf(await getMergeRequestDiscussions(env)()))).toBe(
+      true
+    );
+    await unresolveDiscussion(id)(env)();
+    const thread = threadOf(await getMergeRequestDiscussions(env)());
+    expect(isResolved(thread)).toBe(false);
+    expect(thread.notes.map(note => note.body)).toEqual(["Why B?", "Fixed?"]);
+
+    const endpoint = `/projects/group%2Fproject/merge_requests/1/discussions/${id}`;
+    expect(
+      fake.requests
+        .filter(r => r.method !== "GET")
+        .map(({ method, path, body }) => ({ method, path, body }))
+    ).toContainEqual({
+      method: "PUT",
+      path: endpoint,
+      body: { resolved: true },
+    });
+  });
+
+  it("finds the threads of the bot on a line", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    await comment(fake, bot, 2, "Bot on 2");
+    await comment(fake, human, 2, "Human on 2");
+    await comment(fake, bot, 3, "Bot on 3");
+
+    const bodies = (result: unknown) =>
+      (result as { right: GitLabDiscussion[] }).right.map(d => d.notes[0].body);
+    expect(bodies(await findBotDiscussions("letters.txt", 2)(env)())).toEqual([
+      "Bot on 2",
+    ]);
+    expect(bodies(await findBotDiscussions("letters.txt")(env)())).toEqual([
+      "Bot on 2",
+      "Bot on 3",
+    ]);
+    expect(bodies(await findBotDiscussions("other.txt")(env)())).toEqual([]);
+  });
+
+  it("matches removed lines by their old line", () => {
+    const discussion = ({
+      id: "1",
+      individual_note: false,
+      notes: [
+        {
+          position: { new_path: "letters.txt", new_line: null, old_line: 2 },
+        },
+      ],
+    } as unknown) as GitLabDiscussion;
+    expect(isOnLine("letters.txt", 2)(discussion)).toBe(true);
+    expect(isOnLine("letters.txt", 3)(discussion)).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+import { resolve } from "path";
+import { getOrElse, isRight, left } from "fp-ts/lib/Either";
+import { createInlineComment } from "../CommentPosition";
+import {
+  addFile,
+  buildChange,
+  buildCommit,
+  buildMergeRequest,
+  fakeEnv,
+  fakeFromRecordings,
+  FakeGitLab,
+} from "../FakeGitLab";
+import { loadRecordings } from "../Fixtures";
+import GitLabAPI from "../GitLabAPI";
+import {
+  createMergeRequestDiscussion,
+  getMergeRequestCommitPages,
+  getMergeRequestNotes,
+} from "../GitLabClient";
+import { upsertStickyNote } from "../StickyComment";
+import {
+  fakeMetadata as metadata,
+  loadResponse,
+  seededFake,
+} from "./_fixtures";
+
+const recorded = { repoSlug: "gitlab-org/gitlab-ce", pullRequestID: "27117" };
+
+const apiFor = (fake: FakeGitLab, meta = metadata) => {
+  const env = fakeEnv(fake, meta);
+  return new GitLabAPI(meta, env.credentials, env);
+};
+
+const diff = "@@ -1,2 +1,3 @@\n a\n+b\n c\n";
+
+const seeded = () =>
+  seededFake({
+    mr: buildMergeRequest({ title: "Add b" }),
+    changes: [buildChange("letters.txt", diff)],
+    commits: [
+      buildCommit({ id: "1".repeat(40), title: "One" }),
+      buildCommit({ id: "2".repeat(40), title: "Two" }),
+      buildCommit({ id: "3".repeat(40), title: "Three" }),
+    ],
+  }).fake;
+
+describe("FakeGitLab", () => {
+  it("serves the recorded merge request", async () => {
+    const fake = getOrElse<unknown, FakeGitLab>(e => {
+      throw e;
+    })(
+      fakeFromRecordings(
+        loadRecordings(resolve(__dirname, "fixtures")),
+        recorded
+      )
+    );
+    const api = apiFor(fake, recorded);
+    expect(await api.getUser()).toEqual(loadResponse("getUser"));
+    expect(await api.getMergeRequestInfo()).toEqual(
+      loadResponse("getMergeRequestInfo")
+    );
+    expect(await api.getMergeRequestChanges()).toEqual(
+      loadResponse("getMergeRequestChanges").changes
+    );
+    expect(await api.getMergeRequestNotes()).toEqual(
+      loadResponse("getMergeRequestNotes")
+    );
+  });
+
+  it("fails to seed from recordings of another merge request", () => {
+    const result = fakeFromRecordings(
+      loadRecordings(resolve(__dirname, "fixtures")),
+      metadata
+    );
+    expect(result._tag).toBe("Left");
+  });
+
+  it("shows created notes in later reads", async () => {
+    const api = apiFor(seeded());
+    expect(await api.getMergeRequestNotes()).toEqual([]);
+    const note = await api.createMergeRequestNote("Hello");
+    expect(await api.getMergeRequestNotes()).toEqual([note]);
+    const updated = await api.updateMergeRequestNote(note.id, "Hi");
+    expect(updated.body).toEqual("Hi");
+    expect(await api.getMergeRequestNotes()).toEqual([updated]);
+    expect((await api.getMergeRequestInfo()).user_notes_count).toBe(1);
+    await api.deleteMergeRequestNote(note.id);
+    expect(await api.getMergeRequestNotes()).toEqual([]);
+  });
+
+  it("creates inline notes on lines of the diff", async () => {
+    const fake = seeded();
+    const api = apiFor(fake);
+    const note = await api.run(
+      createInlineComment("letters.txt", 2, "Why b?")
+    )();
+    expect(isRight(note)).toBe(true);
+    const inline = await api.getMergeRequestInlineNotes();
+    expect(inline).toHaveLength(1);
+    expect(inline[0]).toMatchObject({
+      body: "Why b?",
+      type: "DiffNote",
+      resolved: false,
+      position: { new_path: "letters.txt", new_line: 2, old_line: null },
+    });
+  });
+
+  it("rejects positions outside of the diff", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    const mr = buildMergeRequest();
+    const result = await createMergeRequestDiscussion("Nope", {
+      position_type: "text",
+      ...mr.diff_refs,
+      old_path: "letters.txt",
+      new_path: "letters.txt",
+      old_line: null,
+      new_line: 10,
+    })(env)();
+    expect(result).toMatchObject(left({ _tag: "BadRequest", status: 400 }));
+  });
+
+  it("paginates", async () => {
+    const fake = seeded();
+    const page = await getMergeRequestCommitPages({ perPage: 2 })(
+      fakeEnv(fake, metadata)
+    )();
+    if (page._tag === "Left") {
+      throw page.left;
+    }
+    expect(page.right.items.map(c => c.title)).toEqual(["One", "Two"]);
+    expect(fake.requests.map(r => r.query)).toEqual([{ page: 1, perPage: 2 }]);
+  });
+
+  it("updates a sticky note instead of posting another one", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    await upsertStickyNote("rules", "One")(env)();
+    const second = await upsertStickyNote("rules", "Two")(env)();
+    expect(second).toMatchObject({ right: { _tag: "Updated" } });
+    const notes = await getMergeRequestNotes(env)();
+    expect(notes).toMatchObject({
+      right: [{ body: expect.stringMatching(/Two$/) }],
+    });
+  });
+
+  it("serves files by ref, and 404s otherwise", async () => {
+    const fake = seeded();
+    addFile(
+      fake,
+      metadata.repoSlug,
+      "b".repeat(40),
+      "letters.txt",
+      "a\nb\nc\n"
+    );
+    const api = apiFor(fake);
+    expect(await api.getFileContents("letters.txt")).toEqual("a\nb\nc\n");
+    expect(
+      await api.getFileContents("letters.txt", undefined, "master")
+    ).toEqual("");
+  });
+});
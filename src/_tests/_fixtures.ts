@@ -0,0 +1,84 @@
+import { resolve } from "path";
+import { readFileSync } from "fs";
+import { Either, isLeft } from "fp-ts/lib/Either";
+import {
+  addMergeRequest,
+  buildMergeRequest,
+  createFakeGitLab,
+  FakeGitLabOptions,
+  FakeMergeRequestSeed,
+  fakeEnv,
+} from "../FakeGitLab";
+import { defaultRetryPolicy, Gitlab, GitLabEnv } from "../GitLabClient";
+
+/** Returns the recorded response of a fixture. */
+export const loadResponse = (name: string): any =>
+  JSON.parse(
+    readFileSync(resolve(__dirname, "fixtures", `${name}.json`)).toString()
+  )[0].response;
+
+/**
+ * Environment with a stubbed SDK, no HTTP involved.
+ * @param api The services the test uses, e.g. `{ Users: { current } }`
+ */
+export const stubEnv = (
+  api: object,
+  overrides: Partial<GitLabEnv> = {}
+): GitLabEnv => ({
+  api: api as Gitlab,
+  credentials: { host: "https://gitlab.com", token: "token" },
+  metadata: { repoSlug: "gitlab-org/gitlab-ce", pullRequestID: "27117" },
+  log: () => {},
+  retry: defaultRetryPolicy,
+  ...overrides,
+});
+
+/** Clock set by the tests, waking the sleeps that `advance` ends. */
+export const manualClock = () => {
+  let sleeps: Array<{ until: number; wake: () => void }> = [];
+  const clock = {
+    time: 0,
+    now: () => clock.time,
+    sleep: (ms: number, signal?: AbortSignal) =>
+      new Promise<void>(wake => {
+        sleeps.push({ until: clock.time + ms, wake });
+        if (signal) {
+          signal.addEventListener("abort", () => wake());
+        }
+      }),
+    advance: (ms: number) => {
+      clock.time += ms;
+      const due = sleeps.filter(({ until }) => until <= clock.time);
+      sleeps = sleeps.filter(({ until }) => until > clock.time);
+      due.forEach(({ wake }) => wake());
+    },
+  };
+  return clock;
+};
+
+/** The merge request served by `seededFake` */
+export const fakeMetadata = { repoSlug: "group/project", pullRequestID: "1" };
+
+/**
+ * A fake serving one merge request, `buildMergeRequest()` unless the seed
+ * has one, and an environment reading it. Notes are created on 2019-10-01.
+ */
+export const seededFake = (
+  seed: Partial<FakeMergeRequestSeed> = {},
+  options: Partial<FakeGitLabOptions> = {}
+) => {
+  const fake = createFakeGitLab({
+    now: () => "2019-10-01T00:00:00.000Z",
+    ...options,
+  });
+  addMergeRequest(fake, fakeMetadata, { mr: buildMergeRequest(), ...seed });
+  return { fake, env: fakeEnv(fake, fakeMetadata) };
+};
+
+/** The value of a result, failing the test with the error otherwise. */
+export const valueOf = <A>(result: Either<unknown, A>): A => {
+  if (isLeft(result)) {
+    throw new Error(JSON.stringify(result.left));
+  }
+  return result.right;
+};
@@ -3,6 +3,7 @@ import { default as GitLabAPI, getGitLabAPICredentials } from "../GitLabAPI";
 import { resolve } from "path";
 import { readFileSync } from "fs";
 import { GitLabUserProfile } from "../GitLabDSL";
+import { GitLabAPIError } from "../GitLabAPIError";
 import { TaskEither } from "fp-ts/lib/TaskEither";
 import { Either, isLeft, fold } from "fp-ts/lib/Either";
 import { identity } from "fp-ts/lib/function";
@@ -24,8 +25,8 @@ const loadFixture = (path: string): any =>
 /**
  * Extract value from either or throw (if left).
  */
-const getRight = <A>(either: Either<Error, A>): A => {
-  return fold<Error, A, A>(e => {
+const getRight = <E, A>(either: Either<E, A>): A => {
+  return fold<E, A, A>(e => {
     throw e;
   }, identity)(either);
 };
@@ -111,7 +112,10 @@ describe("GitLab API", () => {
 
     const thunk = api.getUserFp();
 
-    const resultEither: Either<Error, GitLabUserProfile> = await thunk();
+    const resultEither: Either<
+      GitLabAPIError,
+      GitLabUserProfile
+    > = await thunk();
 
     const result = getRight(resultEither);
     nockDone();
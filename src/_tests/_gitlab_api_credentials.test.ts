@@ -0,0 +1,108 @@
+import { isLeft, right } from "fp-ts/lib/Either";
+import {
+  getConfigFromEnv,
+  getGitLabAPICredentialsFromEnv,
+  getRepoMetaDataFromEnv,
+} from "../GitLabAPI";
+
+const ciEnv = {
+  CI_SERVER_URL: "https://gitlab.example.com",
+  CI_PROJECT_PATH: "gitlab-org/gitlab-ce",
+  CI_MERGE_REQUEST_IID: "27117",
+  CI_JOB_TOKEN: "job-token",
+};
+
+const failures = (result: ReturnType<typeof getConfigFromEnv>) =>
+  isLeft(result) ? result.left.failures : [];
+
+describe("Credentials from the environment", () => {
+  it("reads GitLab CI's predefined variables", () => {
+    expect(getConfigFromEnv(ciEnv)).toEqual(
+      right({
+        credentials: {
+          host: "https://gitlab.example.com",
+          token: "job-token",
+          tokenType: "job",
+        },
+        metadata: { repoSlug: "gitlab-org/gitlab-ce", pullRequestID: "27117" },
+      })
+    );
+  });
+
+  it("prefers the DANGER_GITLAB_ variables", () => {
+    const env = {
+      ...ciEnv,
+      DANGER_GITLAB_HOST: "https://gitlab.com",
+      DANGER_GITLAB_API_TOKEN: "secret",
+    };
+    expect(getGitLabAPICredentialsFromEnv(env)).toEqual(
+      right({
+        host: "https://gitlab.com",
+        token: "secret",
+        tokenType: "private",
+      })
+    );
+  });
+
+  it("adds the protocol when only a host is given", () => {
+    const env = {
+      DANGER_GITLAB_HOST: "gitlab.example.com/",
+      CI_JOB_TOKEN: "t",
+    };
+    expect(getGitLabAPICredentialsFromEnv(env)).toEqual(
+      right({
+        host: "https://gitlab.example.com",
+        token: "t",
+        tokenType: "job",
+      })
+    );
+  });
+
+  it("keeps a custom host without SSL", () => {
+    const env = {
+      DANGER_GITLAB_HOST: "http://gitlab.local",
+      CI_JOB_TOKEN: "t",
+    };
+    expect(getGitLabAPICredentialsFromEnv(env)).toEqual(
+      right({ host: "http://gitlab.local", token: "t", tokenType: "job" })
+    );
+  });
+
+  it("defaults to gitlab.com", () => {
+    expect(
+      getGitLabAPICredentialsFromEnv({ DANGER_GITLAB_API_TOKEN: "secret" })
+    ).toEqual(
+      right({
+        host: "https://gitlab.com",
+        token: "secret",
+        tokenType: "private",
+      })
+    );
+  });
+
+  it("lists every missing or malformed variable", () => {
+    const result = getConfigFromEnv({
+      DANGER_GITLAB_HOST: "https://",
+      CI_MERGE_REQUEST_IID: "abc",
+    });
+    expect(failures(result)).toEqual([
+      { path: "DANGER_GITLAB_HOST", message: 'expected a URL, got "https://"' },
+      {
+        path: "DANGER_GITLAB_API_TOKEN",
+        message: "missing (or CI_JOB_TOKEN)",
+      },
+      { path: "CI_PROJECT_PATH", message: "missing" },
+      {
+        path: "CI_MERGE_REQUEST_IID",
+        message: 'expected a positive integer, got "abc"',
+      },
+    ]);
+  });
+
+  it("reports the variables in the error message", () => {
+    const result = getRepoMetaDataFromEnv({});
+    expect(isLeft(result) && result.left.message).toEqual(
+      "Invalid environment:\nCI_PROJECT_PATH: missing\nCI_MERGE_REQUEST_IID: missing"
+    );
+  });
+});
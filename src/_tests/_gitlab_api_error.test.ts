@@ -0,0 +1,187 @@
+import nock from "nock";
+import { default as GitLabAPI, getGitLabAPICredentials } from "../GitLabAPI";
+import {
+  fromStatus,
+  fromUnknown,
+  GitLabAPIError,
+  message,
+} from "../GitLabAPIError";
+import TE from "../TaskEitherUtils";
+import { left, right } from "fp-ts/lib/Either";
+import { left as leftTE, right as rightTE } from "fp-ts/lib/TaskEither";
+
+nock.disableNetConnect();
+
+const host = "https://gitlab.com";
+const projectPath = "/api/v4/projects/gitlab-org%2Fgitlab-ce";
+
+describe("GitLabAPIError", () => {
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore();
+  });
+
+  it("classifies HTTP statuses", () => {
+    const tags = [401, 403, 404, 429, 400, 422, 500, 502].map(
+      status => fromStatus("/user", status)._tag
+    );
+    expect(tags).toEqual([
+      "Unauthorized",
+      "Unauthorized",
+      "NotFound",
+      "RateLimited",
+      "BadRequest",
+      "BadRequest",
+      "ServerError",
+      "ServerError",
+    ]);
+  });
+
+  it("keeps the status, headers and body of an SDK error", () => {
+    const sdkError = {
+      response: { status: 429, headers: new Map([["Retry-After", "3"]]) },
+      description: "Retry later",
+    };
+    expect(fromUnknown("/user")(sdkError)).toEqual({
+      _tag: "RateLimited",
+      endpoint: "/user",
+      status: 429,
+      headers: { "retry-after": "3" },
+      body: "Retry later",
+    });
+  });
+
+  it("treats errors without a response as network errors", () => {
+    const error = new Error("socket hang up");
+    expect(fromUnknown("/user")(error)).toEqual({
+      _tag: "Network",
+      endpoint: "/user",
+      error,
+    });
+  });
+
+  it("formats a message per case", () => {
+    expect(message(fromStatus("/user", 401))).toEqual(
+      "/user: unauthorized (401)"
+    );
+  });
+
+  it("matches on error cases", async () => {
+    const describe = TE.foldError<string, string>(
+      {
+        Unauthorized: () => "unauthorized",
+        NotFound: () => "not found",
+        RateLimited: e => `retry after ${e.headers["retry-after"]}`,
+        BadRequest: () => "bad request",
+        ServerError: () => "server error",
+        Network: () => "network",
+        Decode: () => "decode",
+        Timeout: () => "timeout",
+        Aborted: () => "aborted",
+        NotMergeable: () => "not mergeable",
+      },
+      value => value
+    );
+    const rateLimited = fromStatus("/user", 429, { "retry-after": "3" });
+    expect(await describe(leftTE(rateLimited))()).toEqual("retry after 3");
+    expect(await describe(rightTE("ok"))()).toEqual("ok");
+  });
+
+  it("recovers from a single error case", async () => {
+    const recover = TE.orElseOn("NotFound", () =>
+      rightTE<GitLabAPIError, string>("")
+    );
+    const notFound = fromStatus("/file", 404);
+    const serverError = fromStatus("/file", 500);
+    expect(await recover(leftTE(notFound))()).toEqual(right(""));
+    expect(await recover(leftTE(serverError))()).toEqual(left(serverError));
+  });
+
+  describe("GitLabAPI", () => {
+    let api: GitLabAPI;
+
+    beforeEach(() => {
+      api = new GitLabAPI(
+        { pullRequestID: "27117", repoSlug: "gitlab-org/gitlab-ce" },
+        getGitLabAPICredentials()
+      );
+    });
+
+    it("FP getUser returns Unauthorized for a 401", async () => {
+      nock(host)
+        .get("/api/v4/user")
+        .reply(401, { message: "401 Unauthorized" });
+      const result = await api.getUserFp()();
+      expect(result).toEqual(
+        left(
+          expect.objectContaining({
+            _tag: "Unauthorized",
+            endpoint: "/user",
+            status: 401,
+            body: "401 Unauthorized",
+          })
+        )
+      );
+    });
+
+    it("FP getMergeRequestInfo returns a Decode error for a bad response", async () => {
+      nock(host)
+        .get(`${projectPath}/merge_requests/27117`)
+        .reply(200, { id: 1 });
+      const result = await api.getMergeRequestInfoFp()();
+      expect(result).toEqual(
+        left(
+          expect.objectContaining({
+            _tag: "Decode",
+            endpoint: "/projects/gitlab-org%2Fgitlab-ce/merge_requests/27117",
+            body: { id: 1 },
+          })
+        )
+      );
+    });
+
+    it("FP getFileContents decodes the file", async () => {
+      nock(host)
+        .get(`${projectPath}/repository/files/README.md`)
+        .query({ ref: "abc" })
+        .reply(200, { content: Buffer.from("# Hello").toString("base64") });
+      const result = await api.getFileContentsFp(
+        "README.md",
+        undefined,
+        "abc"
+      )();
+      expect(result).toEqual(right("# Hello"));
+    });
+
+    it("FP getFileContents returns an empty string for a missing file", async () => {
+      nock(host)
+        .get(`${projectPath}/repository/files/missing.md`)
+        .query({ ref: "abc" })
+        .reply(404, { message: "404 File Not Found" });
+      const result = await api.getFileContentsFp(
+        "missing.md",
+        undefined,
+        "abc"
+      )();
+      expect(result).toEqual(right(""));
+    });
+
+    it("FP getFileContents keeps other errors", async () => {
+      nock(host)
+        .get(`${projectPath}/repository/files/README.md`)
+        .query({ ref: "abc" })
+        .reply(403, { message: "403 Forbidden" });
+      const result = await api.getFileContentsFp(
+        "README.md",
+        undefined,
+        "abc"
+      )();
+      expect(result).toEqual(
+        left(expect.objectContaining({ _tag: "Unauthorized", status: 403 }))
+      );
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { left, right } from "fp-ts/lib/Either";
+import { array } from "fp-ts/lib/Array";
+import { readerTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import { fromStatus } from "../GitLabAPIError";
+import {
+  createMergeRequestNote,
+  defaultRetryPolicy,
+  getFileContents,
+  getMergeRequestInfo,
+  getMergeRequestInlineNotes,
+  getUser,
+  withMetadata,
+  withRetry,
+} from "../GitLabClient";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const sdkError = (status: number) => ({
+  response: { status, headers: new Map() },
+});
+
+/** Rejects with the given statuses, then resolves with the value. */
+const failingWith = (statuses: number[], value: unknown) => {
+  const remaining = [...statuses];
+  return jest.fn(() =>
+    remaining.length > 0
+      ? Promise.reject(sdkError(remaining.shift() as number))
+      : Promise.resolve(value)
+  );
+};
+
+/** Clock that records the delays instead of waiting. */
+const fakeClock = () => {
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => 0,
+    sleep: (ms: number) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  };
+};
+
+/** Retries without waiting, the delays are recorded by the clock. */
+const clientEnv = (api: object, clock = fakeClock()) =>
+  stubEnv(api, { retry: { ...defaultRetryPolicy, clock, jitter: 0 } });
+
+describe("GitLab client", () => {
+  it("getUser decodes the response of the SDK", async () => {
+    const env = clientEnv({
+      Users: { current: () => Promise.resolve(loadResponse("getUser")) },
+    });
+    expect(await getUser(env)()).toEqual(right(loadResponse("getUser")));
+  });
+
+  it("composes operations across merge requests with one client", async () => {
+    const mr = loadResponse("getMergeRequestInfo");
+    const show = jest.fn((projectId: string, iid: number) =>
+      Promise.resolve({ ...mr, project_id: projectId.length, iid })
+    );
+    const env = clientEnv({ MergeRequests: { show } });
+    const program = array.traverse(readerTaskEither)(
+      ["1", "2"],
+      pullRequestID =>
+        withMetadata({ repoSlug: "group/other", pullRequestID })(
+          getMergeRequestInfo
+        )
+    );
+    const result = await program(env)();
+    expect(show.mock.calls).toEqual([["group/other", 1], ["group/other", 2]]);
+    expect(result).toEqual(
+      right([
+        expect.objectContaining({ iid: 1 }),
+        expect.objectContaining({ iid: 2 }),
+      ])
+    );
+  });
+
+  it("getFileContents reads the file at the head of the merge request", async () => {
+    const show = jest.fn(() =>
+      Promise.resolve({ content: Buffer.from("hello").toString("base64") })
+    );
+    const env = clientEnv({
+      MergeRequests: {
+        show: () => Promise.resolve(loadResponse("getMergeRequestInfo")),
+      },
+      RepositoryFiles: { show },
+    });
+    expect(await getFileContents("README.md")(env)()).toEqual(right("hello"));
+    expect(show).toHaveBeenCalledWith(
+      "gitlab-org/gitlab-ce",
+      "README.md",
+      "28531ab43666b5fdf37e0a70db3bcbf7d3f92183"
+    );
+  });
+
+  it("getFileContents returns an empty string for a missing file", async () => {
+    const env = clientEnv({
+      RepositoryFiles: { show: () => Promise.reject(sdkError(404)) },
+    });
+    expect(
+      await getFileContents("missing.md", "group/other", "master")(env)()
+    ).toEqual(right(""));
+  });
+
+  it("getFileContents keeps other errors", async () => {
+    const env = clientEnv({
+      RepositoryFiles: { show: () => Promise.reject(sdkError(401)) },
+    });
+    expect(
+      await getFileContents("README.md", undefined, "master")(env)()
+    ).toEqual(
+      left(
+        fromStatus(
+          "/projects/gitlab-org%2Fgitlab-ce/repository/files/README.md",
+          401,
+          {}
+        )
+      )
+    );
+  });
+
+  it("retries reads on transient failures", async () => {
+    const mr = loadResponse("getMergeRequestInfo");
+    const show = failingWith([502, 429], mr);
+    const clock = fakeClock();
+    const env = clientEnv({ MergeRequests: { show } }, clock);
+    expect(await getMergeRequestInfo(env)()).toEqual(right(mr));
+    expect(show).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([500, 1000]);
+  });
+
+  it("creates notes once unless retrying is opted in", async () => {
+    const note = loadResponse("getMergeRequestNotes")[0];
+    const create = failingWith([502], note);
+    const env = clientEnv({ MergeRequestNotes: { create } });
+    expect(await createMergeRequestNote("Hello")(env)()).toEqual(
+      left(expect.objectContaining({ _tag: "ServerError", status: 502 }))
+    );
+    expect(await withRetry(createMergeRequestNote("Hello"))(env)()).toEqual(
+      right(note)
+    );
+  });
+  it("decodes the inline notes", async () => {
+    const note = loadResponse("getMergeRequestNotes")[0];
+    const position = {
+      base_sha: "a".repeat(40),
+      start_sha: "a".repeat(40),
+      head_sha: "b".repeat(40),
+      old_path: "a.ts",
+      new_path: "a.ts",
+      position_type: "text",
+      old_line: null,
+      new_line: 1,
+    };
+    const inline = {
+      ...note,
+      type: "DiffNote",
+      position,
+      resolvable: true,
+      resolved: false,
+      resolved_by: null,
+    };
+    const listing = (notes: unknown[]) =>
+      clientEnv({
+        MergeRequests: {
+          requester: {
+            get: () =>
+              Promise.resolve({ body: notes, headers: {}, status: 200 }),
+          },
+        },
+      });
+    expect(await getMergeRequestInlineNotes(listing([note, inline]))()).toEqual(
+      right([inline])
+    );
+    expect(
+      await getMergeRequestInlineNotes(
+        listing([{ ...inline, position: undefined }])
+      )()
+    ).toEqual(left(expect.objectContaining({ _tag: "Decode" })));
+  });
+});
@@ -0,0 +1,93 @@
+import { isLeft, isRight } from "fp-ts/lib/Either";
+import { DecodeError } from "../Decoder";
+import {
+  decodeMergeRequest,
+  decodeMergeRequestChanges,
+  decodeMergeRequestCommits,
+  decodeNotes,
+  decodeUserProfile,
+} from "../GitLabDecoders";
+import { loadResponse } from "./_fixtures";
+
+describe("GitLab decoders", () => {
+  it("accept the recorded responses", () => {
+    expect(isRight(decodeUserProfile(loadResponse("getUser")))).toBe(true);
+    expect(
+      isRight(decodeMergeRequest(loadResponse("getMergeRequestInfo")))
+    ).toBe(true);
+    expect(
+      isRight(decodeMergeRequestChanges(loadResponse("getMergeRequestChanges")))
+    ).toBe(true);
+    expect(
+      isRight(decodeMergeRequestCommits(loadResponse("getMergeRequestCommits")))
+    ).toBe(true);
+    expect(isRight(decodeNotes(loadResponse("getMergeRequestNotes")))).toBe(
+      true
+    );
+  });
+
+  it("return the original response object", () => {
+    const response = loadResponse("getMergeRequestInfo");
+    const result = decodeMergeRequest(response);
+    expect(isRight(result) && result.right).toBe(response);
+  });
+
+  it("list every failing path", () => {
+    const response = loadResponse("getMergeRequestInfo");
+    const result = decodeMergeRequest({
+      ...response,
+      iid: "27117",
+      labels: ["Plan", 3],
+      pipeline: { ...response.pipeline, status: null },
+      diff_refs: undefined,
+    });
+    if (!isLeft(result)) {
+      throw Error("Expected a Left");
+    }
+    expect(result.left).toBeInstanceOf(DecodeError);
+    expect(result.left.message).toEqual(
+      [
+        "Invalid GitLabMR:",
+        'iid: expected number, got "27117"',
+        "labels[1]: expected string, got 3",
+        "pipeline.status: expected string, got null",
+        "diff_refs: expected object, got undefined",
+      ].join("\n")
+    );
+  });
+
+  it("report the accepted values of a union", () => {
+    const response = loadResponse("getMergeRequestInfo");
+    const result = decodeMergeRequest({ ...response, state: "open" });
+    expect(isLeft(result) && result.left.failures).toEqual([
+      {
+        path: "state",
+        message:
+          'expected "opened" | "closed" | "locked" | "merged", got "open"',
+      },
+    ]);
+  });
+
+  it("accept a merge status being recomputed", () => {
+    const response = loadResponse("getMergeRequestInfo");
+    ["checking", "cannot_be_merged_recheck"].forEach(merge_status =>
+      expect(isRight(decodeMergeRequest({ ...response, merge_status }))).toBe(
+        true
+      )
+    );
+  });
+
+  it("report a failure shared by both sides of an intersection once", () => {
+    const result = decodeUserProfile(null);
+    expect(isLeft(result) && result.left.failures).toEqual([
+      { path: "", message: "expected object, got null" },
+    ]);
+  });
+
+  it("fail on a non-array list of notes", () => {
+    const result = decodeNotes({ message: "404 Not Found" });
+    expect(isLeft(result) && result.left.failures).toEqual([
+      { path: "", message: "expected array, got object" },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { isLeft, right } from "fp-ts/lib/Either";
+import {
+  deserializeDSL,
+  getGitLabDSL,
+  getGitLabJSONDSL,
+  serializeDSL,
+} from "../GitLabDSLBuilder";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const metadata = { repoSlug: "gitlab-org/gitlab-ce", pullRequestID: "27117" };
+const mr = loadResponse("getMergeRequestInfo");
+const changes = loadResponse("getMergeRequestChanges");
+const commits = loadResponse("getMergeRequestCommits");
+const notes = loadResponse("getMergeRequestNotes");
+
+const dslEnv = () => {
+  const pages: { [endpoint: string]: unknown } = {
+    "projects/gitlab-org%2Fgitlab-ce/merge_requests/27117/commits": commits,
+    "projects/gitlab-org%2Fgitlab-ce/merge_requests/27117/notes": notes,
+  };
+  return stubEnv(
+    {
+      MergeRequests: {
+        show: () => Promise.resolve(mr),
+        changes: () => Promise.resolve(changes),
+        requester: {
+          get: (_service: unknown, endpoint: string) =>
+            Promise.resolve({
+              body: pages[endpoint],
+              headers: {},
+              status: 200,
+            }),
+        },
+      },
+      RepositoryFiles: {
+        show: () =>
+          Promise.resolve({
+            content: Buffer.from("# Hello").toString("base64"),
+          }),
+      },
+    },
+    { metadata }
+  );
+};
+
+describe("GitLabDSLBuilder", () => {
+  it("assembles the JSON DSL", async () => {
+    expect(await getGitLabJSONDSL(dslEnv())()).toEqual(
+      right({ metadata, mr, commits, changes: changes.changes, notes })
+    );
+  });
+
+  it("binds fileContents to the merge request", async () => {
+    const result = await getGitLabDSL(dslEnv())();
+    if (isLeft(result)) {
+      throw result.left;
+    }
+    expect(await result.right.utils.fileContents("README.md")).toEqual(
+      "# Hello"
+    );
+  });
+
+  it("round-trips through JSON", async () => {
+    const result = await getGitLabDSL(dslEnv())();
+    if (isLeft(result)) {
+      throw result.left;
+    }
+    const { utils, ...json } = result.right;
+    expect(deserializeDSL(serializeDSL(result.right))).toEqual(right(json));
+  });
+
+  it("rejects invalid JSON and invalid data", () => {
+    const invalid = deserializeDSL("{");
+    expect(isLeft(invalid) && invalid.left.message).toMatch(
+      /^Invalid GitLabJSONDSL:\ninvalid JSON/
+    );
+    const incomplete = deserializeDSL(JSON.stringify({ metadata, mr }));
+    expect(isLeft(incomplete) && incomplete.left.failures).toEqual([
+      { path: "commits", message: "expected array, got undefined" },
+      { path: "changes", message: "expected array, got undefined" },
+      { path: "notes", message: "expected array, got undefined" },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  createEnv,
+  getFileContents,
+  getMergeRequestNotes,
+  getUser,
+} from "../GitLabClient";
+import {
+  addMergeRequest,
+  buildMergeRequest,
+  createFakeGitLab,
+  fakeEnv,
+} from "../FakeGitLab";
+import { defaultRetryPolicy, GitLabEnv } from "../GitLabEnv";
+import {
+  jsonLogger,
+  LogFields,
+  Logger,
+  LogLevel,
+  redact,
+  REDACTED,
+  summarize,
+  withFields,
+} from "../Logging";
+
+const metadata = { repoSlug: "group/project", pullRequestID: "1" };
+
+interface Entry {
+  level: LogLevel;
+  message: string;
+  fields?: LogFields;
+}
+
+const capture = () => {
+  const entries: Entry[] = [];
+  const logger: Logger = (level, message, fields) =>
+    entries.push({ level, message, fields });
+  return { entries, logger };
+};
+
+/** Environment whose clock advances 5ms every time it is read */
+const loggedEnv = (logger: Logger): GitLabEnv => {
+  const fake = createFakeGitLab();
+  addMergeRequest(fake, metadata, { mr: buildMergeRequest() });
+  let now = 0;
+  return {
+    ...fakeEnv(fake, metadata),
+    log: logger,
+    retry: {
+      ...defaultRetryPolicy,
+      clock: { now: () => (now += 5), sleep: () => Promise.resolve() },
+    },
+  };
+};
+
+describe("redact", () => {
+  it("redacts tokens and emails", () => {
+    expect(
+      redact(["s3cr3t"])({
+        headers: { "PRIVATE-TOKEN": "abc", "JOB-TOKEN": "def" },
+        token: "abc",
+        tokenType: "private",
+        url: "https://gitlab.com/api/v4/user?private_token=s3cr3t",
+        author: { name: "Jane", public_email: "jane@example.com" },
+        notes: ["Ping jane.doe@example.co.uk please"],
+      })
+    ).toEqual({
+      headers: { "PRIVATE-TOKEN": REDACTED, "JOB-TOKEN": REDACTED },
+      token: REDACTED,
+      tokenType: "private",
+      url: `https://gitlab.com/api/v4/user?private_token=${REDACTED}`,
+      author: { name: "Jane", public_email: REDACTED },
+      notes: [`Ping ${REDACTED} please`],
+    });
+  });
+});
+
+describe("summarize", () => {
+  it("keeps counts and ids only", () => {
+    expect(summarize([1, 2, 3])).toEqual({ count: 3 });
+    expect(summarize({ id: 7, iid: 2, title: "t" })).toEqual({ id: 7, iid: 2 });
+    expect(summarize({ id: 7, body: "b" })).toEqual({ id: 7 });
+    expect(summarize("content")).toEqual({ length: 7 });
+  });
+});
+
+describe("jsonLogger", () => {
+  it("writes one redacted JSON object per line, from the level up", () => {
+    const lines: string[] = [];
+    const log = withFields({ job: "review" })(
+      jsonLogger(line => lines.push(line), { level: "info", now: () => 0 })
+    );
+    log("debug", "dropped");
+    log("warn", "request failed", { status: 401, token: "abc" });
+    expect(lines).toEqual([
+      '{"time":"1970-01-01T00:00:00.000Z","level":"warn","message":"request failed","job":"review","status":401,"token":"[REDACTED]"}',
+    ]);
+  });
+});
+
+describe("request logging", () => {
+  it("logs the operation, the MR, the status and the duration", async () => {
+    const { entries, logger } = capture();
+    await getMergeRequestNotes(loggedEnv(logger))();
+    expect(entries).toEqual([
+      {
+        level: "info",
+        message: "request",
+        fields: {
+          operation: "getMergeRequestNotes",
+          project: "group/project",
+          mr: "1",
+          endpoint: "/projects/group%2Fproject/merge_requests/1/notes",
+          query: { page: 1, perPage: 100 },
+          status: 200,
+          durationMs: 5,
+        },
+      },
+      { level: "debug", message: "getMergeRequestNotes", fields: { count: 0 } },
+    ]);
+  });
+
+  it("logs a summary instead of the response", async () => {
+    const { entries, logger } = capture();
+    await getUser(loggedEnv(logger))();
+    expect(entries[1]).toEqual({
+      level: "debug",
+      message: "getUser",
+      fields: { id: 1 },
+    });
+  });
+
+  it("logs failed requests", async () => {
+    const { entries, logger } = capture();
+    await getFileContents("missing.txt", undefined, "master")(
+      loggedEnv(logger)
+    )();
+    expect(entries).toEqual([
+      {
+        level: "warn",
+        message: "request failed",
+        fields: expect.objectContaining({
+          operation: "getFileContents",
+          status: 404,
+          error: "NotFound",
+          durationMs: 5,
+        }),
+      },
+    ]);
+  });
+
+  it("never logs the token", () => {
+    const { entries, logger } = capture();
+    const env = createEnv(
+      metadata,
+      { host: "https://gitlab.com", token: "s3cr3t" },
+      logger
+    );
+    env.log("error", "GET /user?private_token=s3cr3t failed");
+    expect(entries[0].message).toEqual(
+      `GET /user?private_token=${REDACTED} failed`
+    );
+  });
+});
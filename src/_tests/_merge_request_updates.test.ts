@@ -0,0 +1,175 @@
+import { left, right } from "fp-ts/lib/Either";
+import { buildMergeRequest, buildUser } from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import { notMergeable } from "../GitLabAPIError";
+import {
+  addLabels,
+  approveMergeRequest,
+  getMergeRequestInfo,
+  Gitlab,
+  mergeMergeRequest,
+  removeLabels,
+  setAssignee,
+  setReviewers,
+  setWorkInProgress,
+  unapproveMergeRequest,
+  withWIPTitle,
+} from "../GitLabClient";
+import { GitLabMR } from "../GitLabDSL";
+import { fakeMetadata as metadata, seededFake, valueOf } from "./_fixtures";
+
+const endpoint = "/projects/group%2Fproject/merge_requests/1";
+const bot = buildUser({ id: 1, username: "bot" });
+
+const seeded = (mr: Partial<GitLabMR> = {}) =>
+  seededFake(
+    { mr: buildMergeRequest({ labels: ["backend"], ...mr }) },
+    { user: bot }
+  );
+
+describe("Merge request updates", () => {
+  it("adds and removes labels", async () => {
+    const { fake, env } = seeded();
+    const added = valueOf(await addLabels(["bug", "backend"])(env)());
+    expect(added.labels).toEqual(["backend", "bug"]);
+    expect(fake.requests[0]).toMatchObject({
+      method: "PUT",
+      path: endpoint,
+      body: { add_labels: "bug,backend" },
+    });
+    const removed = valueOf(await removeLabels(["backend"])(env)());
+    expect(removed.labels).toEqual(["bug"]);
+  });
+
+  it("shows updates in later reads", async () => {
+    const { env } = seeded();
+    await getMergeRequestInfo(env)();
+    await setAssignee(bot.id)(env)();
+    const mr = valueOf(await getMergeRequestInfo(env)());
+    expect(mr.assignee).toMatchObject({ id: bot.id });
+    const unassigned = valueOf(await setAssignee(null)(env)());
+    expect(unassigned.assignee).toBeNull();
+  });
+
+  it("sets the reviewers", async () => {
+    const { env } = seeded();
+    const mr = valueOf(await setReviewers([1, 2])(env)());
+    expect((mr.reviewers || []).map(user => user.id)).toEqual([1, 2]);
+  });
+
+  it("toggles work in progress through the title", async () => {
+    const { fake, env } = seeded({ title: "Add b" });
+    const wip = valueOf(await setWorkInProgress(true)(env)());
+    expect(wip).toMatchObject({ title: "WIP: Add b", work_in_progress: true });
+    const ready = valueOf(await setWorkInProgress(false)(env)());
+    expect(ready).toMatchObject({ title: "Add b", work_in_progress: false });
+    const writes = () => fake.requests.filter(r => r.method === "PUT").length;
+    await setWorkInProgress(false)(env)();
+    expect(writes()).toBe(2);
+  });
+
+  it("recognizes the prefixes of work in progress", () => {
+    expect(withWIPTitle("[WIP] Add b", false)).toEqual("Add b");
+    expect(withWIPTitle("Draft: Add b", true)).toEqual("WIP: Add b");
+  });
+
+  it("approves and unapproves", async () => {
+    const { fake, env } = seeded();
+    const approved = await approveMergeRequest("b".repeat(40))(env)();
+    expect(approved).toMatchObject(right({ iid: 1 }));
+    expect(fake.state.mergeRequests["group/project"]["1"].approvedBy).toEqual([
+      expect.objectContaining({ id: bot.id }),
+    ]);
+    await unapproveMergeRequest(env)();
+    expect(
+      fake.requests
+        .filter(r => r.method === "POST")
+        .map(({ path, body }) => ({ path, body }))
+    ).toEqual([
+      { path: `${endpoint}/approve`, body: { sha: "b".repeat(40) } },
+      { path: `${endpoint}/unapprove`, body: {} },
+    ]);
+    expect(fake.state.mergeRequests["group/project"]["1"].approvedBy).toEqual(
+      []
+    );
+  });
+
+  it("merges with options", async () => {
+    const { fake, env } = seeded();
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    const merged = await api.mergeMergeRequest({
+      squash: true,
+      should_remove_source_branch: true,
+    });
+    expect(merged).toMatchObject({
+      state: "merged",
+      squash: true,
+      should_remove_source_branch: true,
+    });
+    expect(fake.requests[0]).toMatchObject({
+      method: "PUT",
+      path: `${endpoint}/merge`,
+    });
+  });
+
+  it("merges when the pipeline succeeds", async () => {
+    const { env } = seeded();
+    const mr = valueOf(
+      await mergeMergeRequest({ merge_when_pipeline_succeeds: true })(env)()
+    );
+    expect(mr).toMatchObject({
+      state: "opened",
+      merge_when_pipeline_succeeds: true,
+    });
+  });
+
+  it("explains why a merge is refused", async () => {
+    const conflict = seeded({ merge_status: "cannot_be_merged" });
+    expect(await mergeMergeRequest()(conflict.env)()).toEqual(
+      left(
+        notMergeable(`${endpoint}/merge`, "conflict", "Branch cannot be merged")
+      )
+    );
+    const checking = seeded({ merge_status: "checking" });
+    expect(await mergeMergeRequest()(checking.env)()).toMatchObject(
+      left({ _tag: "NotMergeable", reason: "unchecked" })
+    );
+    const wip = seeded({ work_in_progress: true });
+    expect(await mergeMergeRequest()(wip.env)()).toMatchObject(
+      left({ _tag: "NotMergeable", reason: "work_in_progress" })
+    );
+    const moved = seeded();
+    expect(
+      await mergeMergeRequest({ sha: "c".repeat(40) })(moved.env)()
+    ).toEqual(
+      left(
+        notMergeable(
+          `${endpoint}/merge`,
+          "sha_mismatch",
+          "SHA does not match HEAD of source branch"
+        )
+      )
+    );
+  });
+
+  it("reports a merge_error", async () => {
+    const { env } = seeded();
+    const failed = buildMergeRequest({
+      merge_error: "Merge failed: pre-receive hook declined",
+    });
+    const accept = jest.fn(() => Promise.resolve(failed));
+    const stub = {
+      ...env,
+      api: ({ MergeRequests: { accept } } as unknown) as Gitlab,
+    };
+    expect(await mergeMergeRequest()(stub)()).toEqual(
+      left(
+        notMergeable(
+          `${endpoint}/merge`,
+          "merge_error",
+          "Merge failed: pre-receive hook declined"
+        )
+      )
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { right } from "fp-ts/lib/Either";
+import { none, some } from "fp-ts/lib/Option";
+import { pipe } from "fp-ts/lib/pipeable";
+import { number, type } from "../Decoder";
+import {
+  getMergeRequestNotePages,
+  getMergeRequestNotes,
+} from "../GitLabClient";
+import { ResponseHeaders } from "../GitLabAPIError";
+import {
+  collectPages,
+  findInPages,
+  nextPageNumber,
+  paginate,
+} from "../Pagination";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const item = type({ id: number });
+
+/** Serves `total` items `{ id }` through a stubbed SDK requester. */
+const pagedRequester = (total: number, link = false) =>
+  jest.fn((_service: unknown, _endpoint: string, { query }: any) => {
+    const { page, perPage } = query;
+    const ids = Array.from({ length: total }, (_, i) => ({ id: i + 1 })).slice(
+      (page - 1) * perPage,
+      page * perPage
+    );
+    const hasNext = page * perPage < total;
+    const headers: ResponseHeaders = link
+      ? hasNext
+        ? { link: `<https://gitlab.com/api/v4/x?page=${page + 1}>; rel="next"` }
+        : {}
+      : { "x-next-page": hasNext ? String(page + 1) : "" };
+    return Promise.resolve({ body: ids, headers, status: 200 });
+  });
+
+const requesterEnv = (get: jest.Mock) =>
+  stubEnv({ MergeRequests: { requester: { get } } });
+
+const items = (perPage: number) =>
+  paginate("items", () => "/items", item, { perPage });
+
+describe("Pagination", () => {
+  it("reads the next page from X-Next-Page", () => {
+    expect(nextPageNumber({ "x-next-page": "3" })).toEqual(some(3));
+    expect(nextPageNumber({ "x-next-page": "" })).toEqual(none);
+  });
+
+  it("falls back to the Link header", () => {
+    const link =
+      '<https://gitlab.com/api/v4/x?page=1>; rel="first", <https://gitlab.com/api/v4/x?page=2&per_page=20>; rel="next"';
+    expect(nextPageNumber({ link })).toEqual(some(2));
+    expect(nextPageNumber({ link: '<x?page=1>; rel="first"' })).toEqual(none);
+  });
+
+  it("collects all pages", async () => {
+    const get = pagedRequester(5);
+    const result = await pipe(
+      items(2),
+      collectPages()
+    )(requesterEnv(get))();
+    expect(result).toEqual(
+      right([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }, { id: 5 }])
+    );
+    expect(get.mock.calls.map(call => call[2].query)).toEqual([
+      { page: 1, perPage: 2 },
+      { page: 2, perPage: 2 },
+      { page: 3, perPage: 2 },
+    ]);
+  });
+
+  it("follows Link headers", async () => {
+    const get = pagedRequester(3, true);
+    const result = await pipe(
+      items(2),
+      collectPages()
+    )(requesterEnv(get))();
+    expect(result).toEqual(right([{ id: 1 }, { id: 2 }, { id: 3 }]));
+  });
+
+  it("stops at maxItems", async () => {
+    const get = pagedRequester(10);
+    const result = await pipe(
+      items(2),
+      collectPages(3)
+    )(requesterEnv(get))();
+    expect(result).toEqual(right([{ id: 1 }, { id: 2 }, { id: 3 }]));
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops at the maxItems of the options", async () => {
+    const get = pagedRequester(10);
+    const result = await pipe(
+      paginate("items", () => "/items", item, { perPage: 2, maxItems: 3 }),
+      collectPages()
+    )(requesterEnv(get))();
+    expect(result).toEqual(right([{ id: 1 }, { id: 2 }, { id: 3 }]));
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops fetching once an item is found", async () => {
+    const get = pagedRequester(10);
+    const result = await pipe(
+      items(2),
+      findInPages(i => i.id === 3)
+    )(requesterEnv(get))();
+    expect(result).toEqual(right(some({ id: 3 })));
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches every page of notes", async () => {
+    const notes: any[] = loadResponse("getMergeRequestNotes");
+    const get = jest.fn(
+      (_service: unknown, _endpoint: string, { query }: any) =>
+        Promise.resolve({
+          body: [notes[query.page - 1]],
+          headers: {
+            "x-next-page": query.page < 3 ? String(query.page + 1) : "",
+          },
+          status: 200,
+        })
+    );
+    const result = await getMergeRequestNotes(requesterEnv(get))();
+    expect(result).toEqual(right(notes.slice(0, 3)));
+    expect(get).toHaveBeenCalledWith(
+      expect.anything(),
+      "projects/gitlab-org%2Fgitlab-ce/merge_requests/27117/notes",
+      { query: { page: 1, perPage: 100 } }
+    );
+  });
+
+  it("limits the notes of a merge request", async () => {
+    const notes: any[] = loadResponse("getMergeRequestNotes");
+    const get = jest.fn(
+      (_service: unknown, _endpoint: string, { query }: any) =>
+        Promise.resolve({
+          body: notes.slice((query.page - 1) * 2, query.page * 2),
+          headers: { "x-next-page": String(query.page + 1) },
+          status: 200,
+        })
+    );
+    const result = await pipe(
+      getMergeRequestNotePages({ perPage: 2, maxItems: 3 }),
+      collectPages()
+    )(requesterEnv(get))();
+    expect(result).toEqual(right(notes.slice(0, 3)));
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
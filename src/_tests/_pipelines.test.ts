@@ -0,0 +1,155 @@
+import { left } from "fp-ts/lib/Either";
+import { addPipeline, buildJob, buildPipeline } from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import {
+  cancelPipeline,
+  cleanTrace,
+  failedJobs,
+  formatJobFailure,
+  getJobArtifact,
+  getJobFailures,
+  getMergeRequestPipelines,
+  getPipelineJobs,
+  retryPipeline,
+  traceTail,
+} from "../Pipelines";
+import { fakeMetadata as metadata, seededFake, valueOf } from "./_fixtures";
+
+const trace = [
+  "\x1b[0KRunning with gitlab-runner 12.3.0",
+  "section_start:1570000000:build_script\r\x1b[0K\x1b[32;1m$ yarn test\x1b[0;m",
+  "Downloading 10%\r50%\r100%",
+  "\x1b[31;1mFAIL\x1b[0;m src/_tests/_diff.test.ts",
+  "section_end:1570000060:build_script\r\x1b[0K",
+  "\x1b[31;1mERROR: Job failed: exit code 1\x1b[0;m",
+  "",
+].join("\n");
+
+const seeded = () => {
+  const { fake, env } = seededFake();
+  addPipeline(fake, metadata, buildPipeline({ id: 10, status: "success" }), [
+    { job: buildJob({ id: 11 }) },
+  ]);
+  addPipeline(fake, metadata, buildPipeline({ id: 20, status: "failed" }), [
+    { job: buildJob({ id: 21, name: "lint", status: "success" }) },
+    {
+      job: buildJob({
+        id: 22,
+        name: "test",
+        status: "failed",
+        failure_reason: "script_failure",
+      }),
+      trace,
+      artifacts: {
+        "junit.xml": "<testsuites/>",
+        "test reports/rspec.json": '{"examples":[]}',
+        "coverage.zip": Buffer.from([0x50, 0x4b, 0x03, 0x04, 0xff]),
+      },
+    },
+    {
+      job: buildJob({
+        id: 23,
+        name: "flaky",
+        status: "failed",
+        allow_failure: true,
+      }),
+    },
+  ]);
+  return { fake, env };
+};
+
+describe("Pipelines", () => {
+  it("lists the pipelines of the merge request, newest first", async () => {
+    const { env } = seeded();
+    const pipelines = valueOf(await getMergeRequestPipelines(env)());
+    expect(pipelines.map(p => [p.id, p.status])).toEqual([
+      [20, "failed"],
+      [10, "success"],
+    ]);
+  });
+
+  it("lists the jobs of a pipeline", async () => {
+    const { env } = seeded();
+    const jobs = valueOf(await getPipelineJobs(20)(env)());
+    expect(jobs.map(j => [j.name, j.status])).toEqual([
+      ["lint", "success"],
+      ["test", "failed"],
+      ["flaky", "failed"],
+    ]);
+  });
+
+  it("reports the failed jobs of the latest pipeline with their logs", async () => {
+    const { env } = seeded();
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    const failures = await api.getJobFailures(3);
+    expect(failures).toEqual([
+      {
+        job: expect.objectContaining({ id: 22, name: "test" }),
+        log: [
+          "100%",
+          "FAIL src/_tests/_diff.test.ts",
+          "ERROR: Job failed: exit code 1",
+        ].join("\n"),
+      },
+    ]);
+    expect(formatJobFailure(failures[0])).toContain(
+      "Job [test](https://gitlab.fake/group/project/-/jobs/22) failed (script failure)"
+    );
+  });
+
+  it("has no failures without a pipeline", async () => {
+    const { env } = seededFake();
+    expect(valueOf(await getJobFailures()(env)())).toEqual([]);
+  });
+
+  it("reads artifacts", async () => {
+    const { env } = seeded();
+    expect(valueOf(await getJobArtifact(22, "junit.xml")(env)())).toEqual(
+      "<testsuites/>"
+    );
+    expect(await getJobArtifact(22, "coverage.xml")(env)()).toMatchObject(
+      left({ _tag: "NotFound" })
+    );
+    expect(
+      valueOf(await getJobArtifact(22, "test reports/rspec.json")(env)())
+    ).toEqual('{"examples":[]}');
+    expect(await getJobArtifact(22, "coverage.zip")(env)()).toMatchObject(
+      left({ _tag: "Decode" })
+    );
+  });
+
+  it("retries and cancels a pipeline", async () => {
+    const { fake, env } = seeded();
+    await getPipelineJobs(20)(env)();
+    const retried = valueOf(await retryPipeline(20)(env)());
+    expect(retried.status).toEqual("running");
+    const jobs = valueOf(await getPipelineJobs(20)(env)());
+    expect(failedJobs(jobs)).toEqual([]);
+    expect(jobs.filter(j => j.status === "pending").map(j => j.name)).toEqual([
+      "test",
+      "flaky",
+    ]);
+    const canceled = valueOf(await cancelPipeline(20)(env)());
+    expect(canceled.status).toEqual("canceled");
+    expect(
+      fake.requests.filter(r => r.method === "POST").map(r => r.path)
+    ).toEqual([
+      "/projects/group%2Fproject/pipelines/20/retry",
+      "/projects/group%2Fproject/pipelines/20/cancel",
+    ]);
+  });
+
+  it("keeps the last attempt of a retried job", () => {
+    const jobs = [
+      buildJob({ id: 1, name: "test", status: "failed" }),
+      buildJob({ id: 2, name: "test", status: "success" }),
+      buildJob({ id: 3, name: "lint", status: "failed" }),
+    ];
+    expect(failedJobs(jobs).map(j => j.id)).toEqual([3]);
+  });
+
+  it("cleans logs", () => {
+    expect(cleanTrace("\x1b[32;1m$ yarn\x1b[0;m\r\n")).toEqual("$ yarn\n");
+    expect(traceTail("a\nb\nc\n\n", 2)).toEqual("b\nc");
+  });
+});
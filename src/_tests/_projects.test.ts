@@ -0,0 +1,177 @@
+import { isLeft, isRight, left, right } from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import { chain } from "fp-ts/lib/ReaderTaskEither";
+import {
+  addMergeRequest,
+  buildMergeRequest,
+  buildUser,
+  fakeEnv,
+} from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import { getMergeRequestInfo, mergeMergeRequest } from "../GitLabClient";
+import { collectPages } from "../Pagination";
+import {
+  forEachMergeRequest,
+  listMergeRequestPages,
+  listMergeRequests,
+} from "../Projects";
+import { fakeMetadata as metadata, seededFake } from "./_fixtures";
+
+const seeded = () => {
+  const { fake } = seededFake();
+  const seed = (iid: number, overrides: object) =>
+    addMergeRequest(
+      fake,
+      { ...metadata, pullRequestID: `${iid}` },
+      {
+        mr: buildMergeRequest({
+          iid,
+          created_at: `2019-10-0${iid}T00:00:00.000Z`,
+          updated_at: `2019-10-0${iid}T00:00:00.000Z`,
+          ...overrides,
+        }),
+      }
+    );
+  seed(1, { labels: ["bug", "backend"] });
+  seed(2, {
+    labels: ["bug"],
+    author: buildUser({ id: 3, username: "alice" }),
+    work_in_progress: true,
+  });
+  seed(3, { state: "merged", target_branch: "stable" });
+  return fake;
+};
+
+const iids = (result: unknown) =>
+  (result as { right: Array<{ iid: number }> }).right.map(mr => mr.iid);
+
+describe("listMergeRequests", () => {
+  it("lists the merge requests of the project, newest first", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    expect(iids(await listMergeRequests()(env)())).toEqual([3, 2, 1]);
+  });
+
+  it("filters the merge requests", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    const list = async (filter: Parameters<typeof listMergeRequests>[0]) =>
+      iids(await listMergeRequests(filter)(env)());
+    expect(await list({ state: "opened" })).toEqual([2, 1]);
+    expect(await list({ labels: ["bug", "backend"] })).toEqual([1]);
+    expect(await list({ authorUsername: "alice" })).toEqual([2]);
+    expect(await list({ targetBranch: "stable" })).toEqual([3]);
+    expect(await list({ updatedAfter: "2019-10-01T12:00:00Z" })).toEqual([
+      3,
+      2,
+    ]);
+    expect(await list({ draft: true })).toEqual([2]);
+    expect(await list({ draft: false, state: "all" })).toEqual([3, 1]);
+    expect(fake.requests[1].query).toMatchObject({
+      labels: "bug,backend",
+      page: 1,
+    });
+  });
+
+  it("fetches the pages lazily", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    const result = await pipe(
+      listMergeRequestPages({ state: "opened" }, { perPage: 1 }),
+      collectPages()
+    )(env)();
+    expect(iids(result)).toEqual([2, 1]);
+    expect(fake.requests.map(r => r.query)).toEqual([
+      expect.objectContaining({ state: "opened", page: 1, perPage: 1 }),
+      expect.objectContaining({ state: "opened", page: 2, perPage: 1 }),
+    ]);
+    expect(iids(await listMergeRequests({}, 1)(env)())).toEqual([3]);
+  });
+});
+
+describe("forEachMergeRequest", () => {
+  it("keeps the result of each merge request", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    const result = await pipe(
+      listMergeRequests({ state: "opened" }),
+      chain(forEachMergeRequest(() => mergeMergeRequest(), 2))
+    )(env)();
+    if (isLeft(result)) {
+      throw new Error("the batch failed");
+    }
+    const [draft, merged] = result.right;
+    expect(draft.mergeRequest.iid).toBe(2);
+    expect(draft.result).toEqual(
+      left(
+        expect.objectContaining({
+          _tag: "NotMergeable",
+          reason: "work_in_progress",
+        })
+      )
+    );
+    expect(merged.mergeRequest.iid).toBe(1);
+    expect(merged.result).toEqual(
+      right(expect.objectContaining({ iid: 1, state: "merged" }))
+    );
+  });
+
+  it("fails the merge request whose operation throws", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const result = await pipe(
+      listMergeRequests(),
+      chain(
+        forEachMergeRequest(mergeRequest => {
+          if (mergeRequest.iid === 2) {
+            throw new Error("broken operation");
+          }
+          return getMergeRequestInfo;
+        }, 2)
+      )
+    )(env)();
+    expect(
+      isRight(result) &&
+        result.right.map(({ mergeRequest, result }) => [
+          mergeRequest.iid,
+          result,
+        ])
+    ).toEqual([
+      [3, right(expect.objectContaining({ iid: 3 }))],
+      [2, left(new Error("broken operation"))],
+      [1, right(expect.objectContaining({ iid: 1 }))],
+    ]);
+  });
+
+  it("runs operations of a single merge request through GitLabAPI", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    const mergeRequests = await api.listMergeRequests({ labels: ["bug"] });
+    const results = await api.forEachMergeRequest(mergeRequests, other =>
+      other.getMergeRequestInfoFp()
+    );
+    expect(
+      results.map(({ mergeRequest, result }) => [mergeRequest.iid, result])
+    ).toEqual([
+      [2, right(expect.objectContaining({ iid: 2 }))],
+      [1, right(expect.objectContaining({ iid: 1 }))],
+    ]);
+    const settled = await api.forEachMergeRequest(
+      mergeRequests,
+      (other, mergeRequest) => {
+        if (mergeRequest.iid === 2) {
+          throw new Error("broken operation");
+        }
+        return other.getMergeRequestInfoFp();
+      }
+    );
+    expect(settled.map(({ result }) => result)).toEqual([
+      left(new Error("broken operation")),
+      right(expect.objectContaining({ iid: 1 })),
+    ]);
+    expect(api.forMergeRequest(3).mergeRequestURL).toMatch(
+      /merge_requests\/3$/
+    );
+    expect(await getMergeRequestInfo(api.forMergeRequest(3).env)()).toEqual(
+      right(expect.objectContaining({ iid: 3 }))
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { left, right } from "fp-ts/lib/Either";
+import { none, some } from "fp-ts/lib/Option";
+import { addFile, buildChange, fakeEnv } from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import {
+  detectEncoding,
+  fileText,
+  findRepositoryFile,
+  getChangeVersions,
+  getFileVersions,
+  getRepositoryFile,
+  getRepositoryTree,
+  RepositoryFile,
+  treeFiles,
+} from "../RepositoryFiles";
+import { fakeMetadata as metadata, seededFake } from "./_fixtures";
+
+const base = "a".repeat(40);
+const head = "b".repeat(40);
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+
+const seeded = () => {
+  const { fake } = seededFake({
+    changes: [
+      buildChange("package.json", ""),
+      buildChange("docs/new.md", "", { new_file: true }),
+      buildChange("src/old.ts", "", {
+        new_path: "src/renamed.ts",
+        renamed_file: true,
+      }),
+    ],
+  });
+  addFile(fake, "group/project", base, "package.json", '{"version":"1.0.0"}');
+  addFile(fake, "group/project", base, "src/old.ts", "export {};\n");
+  addFile(fake, "group/project", head, "package.json", '{"version":"1.1.0"}');
+  addFile(fake, "group/project", head, "src/renamed.ts", "export {};\n");
+  addFile(fake, "group/project", head, "docs/new.md", "");
+  addFile(fake, "group/project", head, "docs/logo.png", png);
+  return fake;
+};
+
+const file = (bytes: Buffer): RepositoryFile => ({
+  path: "file",
+  ref: "master",
+  bytes,
+  encoding: detectEncoding(bytes),
+});
+
+describe("encodings", () => {
+  it("detects text and binary files", () => {
+    expect(detectEncoding(Buffer.from("héllo\n"))).toBe("utf8");
+    expect(detectEncoding(Buffer.from([]))).toBe("utf8");
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe("utf8");
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0]))).toBe("utf16le");
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0, 0x61]))).toBe("utf16be");
+    expect(detectEncoding(png)).toBe("binary");
+    expect(detectEncoding(Buffer.from([0x61, 0xe9, 0x62]))).toBe("binary");
+  });
+
+  it("decodes the text without the byte order mark", () => {
+    expect(fileText(file(Buffer.from([0xef, 0xbb, 0xbf, 0x61])))).toEqual(
+      some("a")
+    );
+    expect(fileText(file(Buffer.from([0xff, 0xfe, 0xe9, 0])))).toEqual(
+      some("é")
+    );
+    expect(fileText(file(Buffer.from([0xfe, 0xff, 0, 0xe9])))).toEqual(
+      some("é")
+    );
+    expect(fileText(file(png))).toEqual(none);
+  });
+});
+
+describe("getRepositoryFile", () => {
+  it("keeps the bytes of a binary file", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const result = await getRepositoryFile("docs/logo.png")(env)();
+    expect(result).toEqual(
+      right({
+        path: "docs/logo.png",
+        ref: head,
+        bytes: png,
+        encoding: "binary",
+      })
+    );
+  });
+
+  it("tells a missing file from an empty one", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    expect(await findRepositoryFile("docs/new.md")(env)()).toEqual(
+      right(some(expect.objectContaining({ bytes: Buffer.from([]) })))
+    );
+    expect(
+      await findRepositoryFile("docs/new.md", undefined, base)(env)()
+    ).toEqual(right(none));
+    expect(await getRepositoryFile("missing.txt")(env)()).toEqual(
+      left(expect.objectContaining({ _tag: "NotFound" }))
+    );
+  });
+
+  it("caches the files of a commit", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    await getRepositoryFile("package.json", undefined, base)(env)();
+    await getRepositoryFile("package.json", undefined, base)(env)();
+    expect(
+      fake.requests.filter(r => r.path.includes("/repository/files/"))
+    ).toHaveLength(1);
+  });
+});
+
+describe("getRepositoryTree", () => {
+  it("lists the tree recursively", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const result = await getRepositoryTree()(env)();
+    expect(result).toEqual(
+      right([
+        expect.objectContaining({ path: "docs", type: "tree", name: "docs" }),
+        expect.objectContaining({ path: "docs/logo.png", type: "blob" }),
+        expect.objectContaining({ path: "docs/new.md", type: "blob" }),
+        expect.objectContaining({ path: "package.json", type: "blob" }),
+        expect.objectContaining({ path: "src", type: "tree" }),
+        expect.objectContaining({ path: "src/renamed.ts", type: "blob" }),
+      ])
+    );
+  });
+
+  it("lists a directory", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const root = await getRepositoryTree(base, { recursive: false })(env)();
+    expect(root._tag === "Right" && treeFiles(root.right)).toEqual([
+      "package.json",
+    ]);
+    const src = await getRepositoryTree(head, { path: "src" })(env)();
+    expect(src._tag === "Right" && treeFiles(src.right)).toEqual([
+      "src/renamed.ts",
+    ]);
+  });
+});
+
+describe("getFileVersions", () => {
+  const texts = (result: unknown) => {
+    const { base, head } = (result as { right: any }).right;
+    return [base, head].map(version =>
+      version._tag === "Some" ? fileText(version.value) : none
+    );
+  };
+
+  it("reads a changed file at the base and the head", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const [before, after] = texts(await getFileVersions("package.json")(env)());
+    expect([before, after]).toEqual([
+      some('{"version":"1.0.0"}'),
+      some('{"version":"1.1.0"}'),
+    ]);
+  });
+
+  it("follows renames and skips the base of a new file", async () => {
+    const fake = seeded();
+    const env = fakeEnv(fake, metadata);
+    expect(texts(await getFileVersions("src/renamed.ts")(env)())).toEqual([
+      some("export {};\n"),
+      some("export {};\n"),
+    ]);
+    const requests = fake.requests.length;
+    const result = await getChangeVersions(
+      buildChange("docs/new.md", "", { new_file: true })
+    )(env)();
+    expect(texts(result)).toEqual([none, some("")]);
+    expect(
+      fake.requests
+        .slice(requests)
+        .filter(r => r.path.includes("/repository/files/"))
+    ).toHaveLength(1);
+  });
+
+  it("reads files through GitLabAPI", async () => {
+    const env = fakeEnv(seeded(), metadata);
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    expect((await api.getRepositoryFile("package.json")).bytes.toString()).toBe(
+      '{"version":"1.1.0"}'
+    );
+    await expect(api.getRepositoryFile("missing.txt")).rejects.toThrow();
+    expect((await api.getFileVersions("package.json")).base).toEqual(
+      some(expect.objectContaining({ ref: base }))
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { isRight, right } from "fp-ts/lib/Either";
+import { array } from "fp-ts/lib/Array";
+import { readerTaskEither } from "fp-ts/lib/ReaderTaskEither";
+import {
+  createMergeRequestNote,
+  getFileContents,
+  getMergeRequestInfo,
+  getMergeRequestNotes,
+  withMetadata,
+} from "../GitLabClient";
+import { createCache, invalidate } from "../RequestCache";
+import { loadResponse, manualClock, stubEnv } from "./_fixtures";
+
+const cachedEnv = (api: object, clock = manualClock()) =>
+  stubEnv(api, { cache: createCache(1000, clock) });
+
+const mergeRequestStub = () => ({
+  show: jest.fn(() => Promise.resolve(loadResponse("getMergeRequestInfo"))),
+});
+
+const file = (content: string) =>
+  Promise.resolve({ content: Buffer.from(content).toString("base64") });
+
+describe("RequestCache", () => {
+  it("shares one request between concurrent callers", async () => {
+    const MergeRequests = mergeRequestStub();
+    const env = cachedEnv({ MergeRequests });
+    const both = array.sequence(readerTaskEither)([
+      getMergeRequestInfo,
+      getMergeRequestInfo,
+    ]);
+    const result = await both(env)();
+    expect(isRight(result)).toBe(true);
+    expect(MergeRequests.show).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches the merge request once for many files", async () => {
+    const MergeRequests = mergeRequestStub();
+    const RepositoryFiles = { show: jest.fn(() => file("content")) };
+    const env = cachedEnv({ MergeRequests, RepositoryFiles });
+    const paths = ["a.ts", "b.ts", "c.ts", "a.ts"];
+    const result = await array.traverse(readerTaskEither)(paths, path =>
+      getFileContents(path)
+    )(env)();
+    expect(result).toEqual(right(["content", "content", "content", "content"]));
+    expect(MergeRequests.show).toHaveBeenCalledTimes(1);
+    // a.ts at the head SHA is only fetched once
+    expect(RepositoryFiles.show).toHaveBeenCalledTimes(3);
+  });
+
+  it("refetches mutable resources after the TTL", async () => {
+    const clock = manualClock();
+    const MergeRequests = mergeRequestStub();
+    const env = cachedEnv({ MergeRequests }, clock);
+    await getMergeRequestInfo(env)();
+    clock.advance(999);
+    await getMergeRequestInfo(env)();
+    expect(MergeRequests.show).toHaveBeenCalledTimes(1);
+    clock.advance(1);
+    await getMergeRequestInfo(env)();
+    expect(MergeRequests.show).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps immutable resources past the TTL", async () => {
+    const clock = manualClock();
+    const RepositoryFiles = { show: jest.fn(() => file("content")) };
+    const env = cachedEnv({ RepositoryFiles }, clock);
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+    await getFileContents("a.ts", undefined, sha)(env)();
+    clock.advance(5000);
+    await getFileContents("a.ts", undefined, sha)(env)();
+    await getFileContents("a.ts", undefined, "master")(env)();
+    expect(RepositoryFiles.show).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failures", async () => {
+    const MergeRequests = {
+      show: jest
+        .fn()
+        .mockReturnValueOnce(
+          Promise.reject({ response: { status: 404, headers: new Map() } })
+        )
+        .mockReturnValueOnce(
+          Promise.resolve(loadResponse("getMergeRequestInfo"))
+        ),
+    };
+    const env = cachedEnv({ MergeRequests });
+    expect(isRight(await getMergeRequestInfo(env)())).toBe(false);
+    expect(isRight(await getMergeRequestInfo(env)())).toBe(true);
+  });
+
+  it("invalidates notes after a write", async () => {
+    const notes = loadResponse("getMergeRequestNotes");
+    const get = jest.fn(() =>
+      Promise.resolve({ body: notes, headers: {}, status: 200 })
+    );
+    const MergeRequestNotes = {
+      create: jest.fn(() => Promise.resolve(notes[0])),
+    };
+    const env = cachedEnv({
+      MergeRequests: { requester: { get } },
+      MergeRequestNotes,
+    });
+    await getMergeRequestNotes(env)();
+    await getMergeRequestNotes(env)();
+    expect(get).toHaveBeenCalledTimes(1);
+    await createMergeRequestNote("Hello")(env)();
+    await getMergeRequestNotes(env)();
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("invalidates explicitly", async () => {
+    const MergeRequests = mergeRequestStub();
+    const env = cachedEnv({ MergeRequests });
+    await getMergeRequestInfo(env)();
+    await invalidate(() => "/projects")(env)();
+    await getMergeRequestInfo(env)();
+    expect(MergeRequests.show).toHaveBeenCalledTimes(2);
+  });
+  it("invalidates a path without its siblings", async () => {
+    const MergeRequests = mergeRequestStub();
+    const env = cachedEnv({ MergeRequests });
+    const other = withMetadata({ ...env.metadata, pullRequestID: "2711" })(
+      getMergeRequestInfo
+    );
+    await getMergeRequestInfo(env)();
+    await other(env)();
+    await invalidate(
+      () => "/projects/gitlab-org%2Fgitlab-ce/merge_requests/2711"
+    )(env)();
+    await getMergeRequestInfo(env)();
+    expect(MergeRequests.show).toHaveBeenCalledTimes(2);
+    await other(env)();
+    expect(MergeRequests.show).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  addMergeRequest,
+  buildCommit,
+  buildMergeRequest,
+  buildUser,
+  createFakeGitLab,
+  fakeEnv,
+} from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import { GitLabDiscussion, GitLabInlineNote, GitLabNote } from "../GitLabDSL";
+import {
+  getReviewReports,
+  reviewerStatsToCSV,
+  ReviewInput,
+  reviewReport,
+  reviewReportsToCSV,
+  reviewReportsToJSON,
+} from "../ReviewAnalytics";
+
+const metadata = { repoSlug: "group/project", pullRequestID: "1" };
+const hour = 60 * 60 * 1000;
+const at = (hours: number) =>
+  new Date(Date.UTC(2019, 9, 1) + hours * hour).toISOString();
+
+const note = (
+  id: number,
+  username: string,
+  hours: number,
+  body: string,
+  system: boolean = false
+): GitLabNote => ({
+  id,
+  type: null,
+  body,
+  attachment: null,
+  author: buildUser({ username }),
+  created_at: at(hours),
+  updated_at: at(hours),
+  system,
+  noteable_id: 1,
+  noteable_type: "MergeRequest",
+  resolvable: false,
+  noteable_iid: 1,
+});
+
+const inline = (
+  base: GitLabNote,
+  path: string,
+  resolution: { resolvedBy: string; hours: number } | null
+): GitLabInlineNote => ({
+  ...base,
+  type: "DiffNote",
+  position: {
+    base_sha: "a".repeat(40),
+    start_sha: "a".repeat(40),
+    head_sha: "b".repeat(40),
+    old_path: path,
+    new_path: path,
+    position_type: "text",
+    old_line: null,
+    new_line: 3,
+  },
+  resolvable: true,
+  resolved: resolution !== null,
+  resolved_by: resolution && buildUser({ username: resolution.resolvedBy }),
+  updated_at: resolution ? at(resolution.hours) : base.updated_at,
+});
+
+const thread = (notes: GitLabInlineNote[]): GitLabDiscussion => ({
+  id: `${notes[0].id}`.padStart(40, "0"),
+  individual_note: false,
+  notes,
+});
+
+const resolved = { resolvedBy: "bob", hours: 5 };
+const discussions = [
+  thread([
+    inline(note(3, "bob", 2, "Why?"), "a.ts", resolved),
+    inline(note(4, "author", 3, "Fixed"), "a.ts", resolved),
+  ]),
+  thread([inline(note(7, "carol", 7, "Typo"), "b.ts", null)]),
+];
+const comments = [
+  note(1, "danger-bot", 0.5, "Danger report"),
+  note(2, "bob", 1, "Looks good overall"),
+  note(5, "carol", 6, "One more thing"),
+  note(8, "bob", 8, "approved this merge request", true),
+];
+
+const input: ReviewInput = {
+  mr: buildMergeRequest({
+    title: 'Add "review", analytics',
+    created_at: at(0),
+    merged_at: at(10),
+    state: "merged",
+  }),
+  commits: [
+    buildCommit({ id: "1".repeat(40), committed_date: at(0) }),
+    buildCommit({ id: "2".repeat(40), committed_date: at(4) }),
+  ],
+  notes: [
+    ...comments,
+    ...discussions.reduce<GitLabNote[]>((all, d) => all.concat(d.notes), []),
+  ],
+  discussions,
+};
+
+describe("reviewReport", () => {
+  it("computes the metrics of a merge request", () => {
+    const report = reviewReport({ ignoredUsers: ["danger-bot"] })(input);
+    expect(report).toEqual({
+      iid: 1,
+      title: 'Add "review", analytics',
+      author: "author",
+      createdAt: at(0),
+      mergedAt: at(10),
+      firstCommentMs: hour,
+      reviewRounds: 2,
+      approvalToMergeMs: 2 * hour,
+      threads: 2,
+      resolvedThreads: 1,
+      medianResolutionMs: 3 * hour,
+      maxResolutionMs: 3 * hour,
+      reviewers: [
+        {
+          username: "bob",
+          comments: 2,
+          firstCommentMs: hour,
+          threadsStarted: 1,
+          threadsResolved: 1,
+          approved: true,
+        },
+        {
+          username: "carol",
+          comments: 2,
+          firstCommentMs: 6 * hour,
+          threadsStarted: 1,
+          threadsResolved: 0,
+          approved: false,
+        },
+      ],
+    });
+  });
+
+  it("counts everyone but the author as a reviewer by default", () => {
+    const report = reviewReport()(input);
+    expect(report.firstCommentMs).toBe(hour / 2);
+    expect(report.reviewers.map(stats => stats.username)).toEqual([
+      "bob",
+      "carol",
+      "danger-bot",
+    ]);
+  });
+
+  it("has no durations for an unreviewed merge request", () => {
+    const report = reviewReport()({
+      mr: buildMergeRequest(),
+      commits: [],
+      notes: [],
+      discussions: [],
+    });
+    expect(report).toMatchObject({
+      firstCommentMs: null,
+      reviewRounds: 0,
+      approvalToMergeMs: null,
+      medianResolutionMs: null,
+      maxResolutionMs: null,
+      reviewers: [],
+    });
+  });
+
+  it("counts the threads on a line apart", () => {
+    const report = reviewReport()({
+      ...input,
+      discussions: [
+        ...discussions,
+        thread([inline(note(6, "carol", 6.5, "Also"), "a.ts", null)]),
+      ],
+    });
+    expect(report).toMatchObject({ threads: 3, resolvedThreads: 1 });
+    expect(report.reviewers[1]).toMatchObject({
+      username: "carol",
+      threadsStarted: 2,
+    });
+  });
+
+  it("takes back an approval", () => {
+    const report = reviewReport()({
+      ...input,
+      notes: [
+        ...input.notes,
+        note(9, "bob", 9, "unapproved this merge request", true),
+      ],
+    });
+    expect(report.reviewers[0]).toMatchObject({
+      username: "bob",
+      approved: false,
+    });
+  });
+});
+
+describe("exports", () => {
+  const report = reviewReport({ ignoredUsers: ["danger-bot"] })(input);
+
+  it("writes a row per merge request", () => {
+    expect(reviewReportsToCSV([report]).split("\r\n")).toEqual([
+      "iid,title,author,created_at,merged_at,first_comment_ms,review_rounds,approval_to_merge_ms,threads,resolved_threads,median_resolution_ms,max_resolution_ms,reviewers",
+      `1,"Add ""review"", analytics",author,${at(0)},${at(
+        10
+      )},3600000,2,7200000,2,1,10800000,10800000,bob carol`,
+      "",
+    ]);
+  });
+
+  it("writes a row per reviewer", () => {
+    expect(reviewerStatsToCSV([report]).split("\r\n")).toEqual([
+      "iid,reviewer,comments,first_comment_ms,threads_started,threads_resolved,approved",
+      "1,bob,2,3600000,1,1,true",
+      "1,carol,2,21600000,1,0,false",
+      "",
+    ]);
+  });
+
+  it("round-trips through JSON", () => {
+    expect(JSON.parse(reviewReportsToJSON([report]))).toEqual([report]);
+  });
+});
+
+describe("getReviewReports", () => {
+  it("reports on each merge request of the batch", async () => {
+    const fake = createFakeGitLab();
+    addMergeRequest(fake, metadata, {
+      mr: input.mr,
+      commits: input.commits,
+      notes: comments,
+      discussions,
+    });
+    addMergeRequest(
+      fake,
+      { ...metadata, pullRequestID: "2" },
+      { mr: buildMergeRequest({ iid: 2 }) }
+    );
+    const env = fakeEnv(fake, metadata);
+    const options = { ignoredUsers: ["danger-bot"] };
+    const result = await getReviewReports([1, 2], options)(env)();
+    expect(result).toEqual({
+      _tag: "Right",
+      right: [
+        reviewReport(options)(input),
+        expect.objectContaining({ iid: 2, reviewRounds: 0 }),
+      ],
+    });
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    expect(await api.getReviewReport(options)).toEqual(
+      reviewReport(options)(input)
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { right } from "fp-ts/lib/Either";
+import { left as leftTE, right as rightTE } from "fp-ts/lib/TaskEither";
+import {
+  addMergeRequest,
+  buildChange,
+  buildMergeRequest,
+  createFakeGitLab,
+  fakeEnv,
+} from "../FakeGitLab";
+import { toGitLabDSL } from "../GitLabDSLBuilder";
+import { formatSummary, postReport } from "../Report";
+import { fail, markdown, message, Rule, runRules, warn } from "../Rules";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const metadata = { repoSlug: "gitlab-org/gitlab-ce", pullRequestID: "27117" };
+const mr = loadResponse("getMergeRequestInfo");
+const changes = loadResponse("getMergeRequestChanges");
+const notes = loadResponse("getMergeRequestNotes");
+const dsl = toGitLabDSL(
+  {
+    metadata,
+    mr,
+    commits: loadResponse("getMergeRequestCommits"),
+    changes: changes.changes,
+    notes,
+  },
+  () => Promise.resolve("")
+);
+const dangerfile = "danger/roulette/Dangerfile";
+
+const rule = (name: string, check: Rule["check"]): Rule => ({ name, check });
+
+describe("Rules", () => {
+  it("aggregates the results of all rules", async () => {
+    const report = await runRules([
+      rule("title", d => rightTE([warn(`Title: ${d.mr.title}`)])),
+      rule("none", () => rightTE([])),
+      rule("files", d =>
+        rightTE(d.changes.map(c => message("Changed", c.new_path, 1)))
+      ),
+    ])(dsl)();
+    expect(report).toEqual({
+      passed: true,
+      entries: [
+        { rule: "title", level: "warn", message: `Title: ${mr.title}` },
+        {
+          rule: "files",
+          level: "message",
+          message: "Changed",
+          file: dangerfile,
+          line: 1,
+        },
+      ],
+    });
+  });
+
+  it("fails when a rule fails", async () => {
+    const report = await runRules([rule("wip", () => rightTE([fail("WIP")]))])(
+      dsl
+    )();
+    expect(report.passed).toBe(false);
+  });
+
+  it("runs the rules concurrently", async () => {
+    const started: string[] = [];
+    let release: () => void = () => {};
+    const gate = new Promise<void>(resolve => (release = resolve));
+    const waiting = (name: string): Rule =>
+      rule(name, () => () => {
+        started.push(name);
+        if (started.length === 2) {
+          release();
+        }
+        return gate.then(() => right([message(name)]));
+      });
+    const report = await runRules([waiting("a"), waiting("b")])(dsl)();
+    expect(report.entries.map(e => e.message)).toEqual(["a", "b"]);
+  });
+
+  it("isolates a broken rule", async () => {
+    const report = await runRules([
+      rule("throws", () => {
+        throw new Error("boom");
+      }),
+      rule("rejects", () => () => Promise.reject(new Error("nope"))),
+      rule("left", () => leftTE("no token")),
+      rule("fine", () => rightTE([message("ok")])),
+    ])(dsl)();
+    expect(report.passed).toBe(false);
+    expect(report.entries.map(e => [e.rule, e.level, e.message])).toEqual([
+      ["throws", "fail", 'Rule "throws" failed: boom'],
+      ["rejects", "fail", 'Rule "rejects" failed: nope'],
+      ["left", "fail", 'Rule "left" failed: no token'],
+      ["fine", "message", "ok"],
+    ]);
+  });
+});
+
+describe("Report", () => {
+  it("formats a summary", () => {
+    const entry = { rule: "r" };
+    expect(
+      formatSummary([
+        { ...entry, ...message("Thanks") },
+        { ...entry, ...fail("No tests", "a.ts", 3) },
+        { ...entry, ...markdown("## Details") },
+        { ...entry, ...warn("Big MR") },
+      ])
+    ).toEqual(
+      [
+        "### :no_entry_sign: Fails\n\n- No tests (`a.ts:3`)",
+        "### :warning: Warnings\n\n- Big MR",
+        "### :book: Messages\n\n- Thanks",
+        "## Details",
+      ].join("\n\n")
+    );
+    expect(formatSummary([])).toEqual("");
+  });
+
+  it("posts lines of the diff inline and the rest in the summary", async () => {
+    const user = loadResponse("getUser");
+    const note = notes[0];
+    const MergeRequestDiscussions = {
+      create: jest.fn(() =>
+        Promise.resolve({ id: "d1", individual_note: false, notes: [note] })
+      ),
+    };
+    const MergeRequestNotes = { create: jest.fn(() => Promise.resolve(note)) };
+    const env = stubEnv({
+      Users: { current: () => Promise.resolve(user) },
+      MergeRequests: {
+        show: () => Promise.resolve(mr),
+        changes: () => Promise.resolve(changes),
+        requester: {
+          get: () => Promise.resolve({ body: [], headers: {}, status: 200 }),
+        },
+      },
+      MergeRequestDiscussions,
+      MergeRequestNotes,
+    });
+    const report = {
+      passed: false,
+      entries: [
+        { rule: "r", ...fail("Inline", dangerfile, 3) },
+        { rule: "r", ...warn("Not in diff", dangerfile, 30) },
+      ],
+    };
+    const result = await postReport(report)(env)();
+    expect(result).toEqual(
+      right({
+        summary: { _tag: "Created", note },
+        discussions: [{ id: "d1", individual_note: false, notes: [note] }],
+      })
+    );
+    expect(MergeRequestDiscussions.create).toHaveBeenCalledWith(
+      metadata.repoSlug,
+      metadata.pullRequestID,
+      ":no_entry_sign: Inline",
+      { position: expect.objectContaining({ new_line: 3 }) }
+    );
+    expect(MergeRequestNotes.create).toHaveBeenCalledWith(
+      metadata.repoSlug,
+      metadata.pullRequestID,
+      `<!-- fp-gitlab:rules -->\n### :warning: Warnings\n\n- Not in diff (\`${dangerfile}:30\`)`
+    );
+  });
+
+  it("doesn't post an inline entry twice", async () => {
+    const fake = createFakeGitLab();
+    const fakeMetadata = { repoSlug: "group/project", pullRequestID: "1" };
+    addMergeRequest(fake, fakeMetadata, {
+      mr: buildMergeRequest(),
+      changes: [buildChange("a.ts", "@@ -1,2 +1,3 @@\n a\n+b\n c\n")],
+    });
+    const env = fakeEnv(fake, fakeMetadata);
+    const report = (text: string) => ({
+      passed: false,
+      entries: [{ rule: "r", ...fail(text, "a.ts", 2) }],
+    });
+    const bodies = () =>
+      fake.state.mergeRequests["group/project"]["1"].discussions.map(
+        discussion => discussion.notes[0].body
+      );
+    const first = await postReport(report("Inline"))(env)();
+    const second = await postReport(report("Inline"))(env)();
+    expect(second).toEqual(first);
+    expect(bodies()).toEqual([":no_entry_sign: Inline"]);
+    await postReport(report("Changed"))(env)();
+    expect(bodies()).toEqual([
+      ":no_entry_sign: Inline",
+      ":no_entry_sign: Changed",
+    ]);
+  });
+});
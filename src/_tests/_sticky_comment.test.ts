@@ -0,0 +1,115 @@
+import { right } from "fp-ts/lib/Either";
+import { some } from "fp-ts/lib/Option";
+import { GitLabNote } from "../GitLabDSL";
+import { findStickyNote, upsertStickyNote, withMarker } from "../StickyComment";
+import { loadResponse, stubEnv } from "./_fixtures";
+
+const user = loadResponse("getUser");
+const recorded: GitLabNote[] = loadResponse("getMergeRequestNotes");
+const humanNote = recorded.filter(note => !note.system)[0];
+
+const note = (id: number, body: string, author = user): GitLabNote => ({
+  ...humanNote,
+  id,
+  body,
+  author: { ...humanNote.author, id: author.id },
+});
+
+/** Serves the notes one per page. */
+const notesEnv = (notes: GitLabNote[]) => {
+  const get = jest.fn((_service: unknown, _endpoint: string, { query }: any) =>
+    Promise.resolve({
+      body: notes.slice(query.page - 1, query.page),
+      headers: {
+        "x-next-page": query.page < notes.length ? String(query.page + 1) : "",
+      },
+      status: 200,
+    })
+  );
+  const MergeRequestNotes = {
+    create: jest.fn((_p: string, _mr: string, body: string) =>
+      Promise.resolve(note(1, body))
+    ),
+    edit: jest.fn((_p: string, _mr: string, id: number, body: string) =>
+      Promise.resolve(note(id, body))
+    ),
+    remove: jest.fn(() => Promise.resolve({})),
+  };
+  const env = stubEnv({
+    Users: { current: () => Promise.resolve(user) },
+    MergeRequests: { requester: { get } },
+    MergeRequestNotes,
+  });
+  return { env, get, MergeRequestNotes };
+};
+
+describe("StickyComment", () => {
+  const someoneElse = { id: user.id + 1 };
+
+  it("finds the note of the token's user without reading further pages", async () => {
+    const sticky = note(3, withMarker("lint", "Old report"));
+    const { env, get } = notesEnv([
+      note(2, withMarker("lint", "Quoted"), someoneElse),
+      note(4, withMarker("coverage", "Coverage")),
+      sticky,
+      note(5, "Later note"),
+    ]);
+    expect(await findStickyNote("lint")(env)()).toEqual(right(some(sticky)));
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("creates the note when there is none", async () => {
+    const { env, MergeRequestNotes } = notesEnv([note(2, "Hello")]);
+    const result = await upsertStickyNote("lint", "Report")(env)();
+    expect(result).toEqual(
+      right({ _tag: "Created", note: note(1, withMarker("lint", "Report")) })
+    );
+    expect(MergeRequestNotes.create).toHaveBeenCalledWith(
+      "gitlab-org/gitlab-ce",
+      "27117",
+      "<!-- fp-gitlab:lint -->\nReport"
+    );
+  });
+
+  it("updates the existing note", async () => {
+    const { env, MergeRequestNotes } = notesEnv([
+      note(3, withMarker("lint", "Old report")),
+    ]);
+    const result = await upsertStickyNote("lint", "New report")(env)();
+    expect(result).toEqual(
+      right({
+        _tag: "Updated",
+        note: note(3, withMarker("lint", "New report")),
+      })
+    );
+    expect(MergeRequestNotes.create).not.toHaveBeenCalled();
+  });
+
+  it("leaves an identical note alone", async () => {
+    const sticky = note(3, withMarker("lint", "Report"));
+    const { env, MergeRequestNotes } = notesEnv([sticky]);
+    const result = await upsertStickyNote("lint", "Report")(env)();
+    expect(result).toEqual(right({ _tag: "Unchanged", note: sticky }));
+    expect(MergeRequestNotes.edit).not.toHaveBeenCalled();
+  });
+
+  it("deletes the note when the report is empty", async () => {
+    const { env, MergeRequestNotes } = notesEnv([
+      note(3, withMarker("lint", "Old report")),
+    ]);
+    const result = await upsertStickyNote("lint", "  \n")(env)();
+    expect(result).toEqual(right({ _tag: "Deleted", id: 3 }));
+    expect(MergeRequestNotes.remove).toHaveBeenCalledWith(
+      "gitlab-org/gitlab-ce",
+      "27117",
+      3
+    );
+  });
+
+  it("does nothing for an empty report without a note", async () => {
+    const { env, MergeRequestNotes } = notesEnv([]);
+    const result = await upsertStickyNote("lint", "")(env)();
+    expect(result).toEqual(right({ _tag: "Absent" }));
+    expect(MergeRequestNotes.create).not.toHaveBeenCalled();
+  });
+});
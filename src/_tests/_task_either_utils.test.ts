@@ -0,0 +1,339 @@
+import { Either, left, right } from "fp-ts/lib/Either";
+import { getMonoid } from "fp-ts/lib/Array";
+import { semigroupString } from "fp-ts/lib/Semigroup";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+import TE, { RetryPolicy } from "../TaskEitherUtils";
+import {
+  fromStatus,
+  GitLabAPIError,
+  isRetryable,
+  retryAfterMs,
+} from "../GitLabAPIError";
+
+/** Clock starting at `start` that advances when sleeping. */
+const fakeClock = (start = 0) => {
+  let now = start;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: (ms: number) => {
+      sleeps.push(ms);
+      now += ms;
+      return Promise.resolve();
+    },
+  };
+};
+
+/** TaskEither failing with the given errors, then succeeding. */
+const failingWith = <E>(errors: E[]) => {
+  const remaining = [...errors];
+  let calls = 0;
+  const task: TaskEither<E, string> = () => {
+    calls++;
+    return Promise.resolve(
+      remaining.length > 0 ? left(remaining.shift() as E) : right("done")
+    );
+  };
+  return { task, calls: () => calls };
+};
+
+const policy = (
+  clock: ReturnType<typeof fakeClock>
+): RetryPolicy<GitLabAPIError> => ({
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 10000,
+  jitter: 0,
+  isRetryable,
+  retryAfterMs,
+  clock,
+  random: () => 0.5,
+});
+
+/** Waits until the promise callbacks queued so far have run. */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+/** Tasks that only settle when told to, tracking how many run at once. */
+const controlled = () => {
+  const settlers: { [name: string]: (r: Either<string, string>) => void } = {};
+  const started: string[] = [];
+  let running = 0;
+  let maxRunning = 0;
+  const task = (name: string): TaskEither<string, string> => () => {
+    started.push(name);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    return new Promise(resolve => {
+      settlers[name] = r => {
+        running--;
+        resolve(r);
+      };
+    });
+  };
+  const settle = (name: string, r: Either<string, string>) => {
+    settlers[name](r);
+    return flush();
+  };
+  return { task, settle, started, maxRunning: () => maxRunning };
+};
+
+describe("TaskEitherUtils", () => {
+  describe("retrying", () => {
+    const serverError = fromStatus("/user", 502);
+
+    it("retries with exponential backoff until success", async () => {
+      const clock = fakeClock();
+      const { task, calls } = failingWith([serverError, serverError]);
+      expect(await TE.retrying(policy(clock))(task)()).toEqual(right("done"));
+      expect(calls()).toEqual(3);
+      expect(clock.sleeps).toEqual([100, 200]);
+    });
+
+    it("returns the last error when attempts run out", async () => {
+      const clock = fakeClock();
+      const last = fromStatus("/user", 503);
+      const { task, calls } = failingWith([
+        serverError,
+        serverError,
+        serverError,
+        last,
+      ]);
+      expect(await TE.retrying(policy(clock))(task)()).toEqual(left(last));
+      expect(calls()).toEqual(4);
+      expect(clock.sleeps).toEqual([100, 200, 400]);
+    });
+
+    it("does not retry other errors", async () => {
+      const clock = fakeClock();
+      const notFound = fromStatus("/user", 404);
+      const { task, calls } = failingWith([notFound]);
+      expect(await TE.retrying(policy(clock))(task)()).toEqual(left(notFound));
+      expect(calls()).toEqual(1);
+    });
+
+    it("applies jitter", async () => {
+      const clock = fakeClock();
+      const { task } = failingWith([serverError, serverError]);
+      await TE.retrying({ ...policy(clock), jitter: 1 })(task)();
+      expect(clock.sleeps).toEqual([50, 100]);
+    });
+
+    it("caps the delay", async () => {
+      const clock = fakeClock();
+      const { task } = failingWith([serverError, serverError, serverError]);
+      await TE.retrying({ ...policy(clock), maxDelayMs: 150 })(task)();
+      expect(clock.sleeps).toEqual([100, 150, 150]);
+    });
+
+    it("waits as long as Retry-After asks", async () => {
+      const clock = fakeClock();
+      const rateLimited = fromStatus("/user", 429, { "retry-after": "3" });
+      const { task } = failingWith([rateLimited]);
+      expect(await TE.retrying(policy(clock))(task)()).toEqual(right("done"));
+      expect(clock.sleeps).toEqual([3000]);
+    });
+
+    it("waits until RateLimit-Reset", async () => {
+      const clock = fakeClock(1558351066000 - 2500);
+      const rateLimited = fromStatus("/user", 429, {
+        "ratelimit-reset": "1558351066",
+      });
+      const { task } = failingWith([rateLimited]);
+      await TE.retrying(policy(clock))(task)();
+      expect(clock.sleeps).toEqual([2500]);
+    });
+
+    it("gives up when the server asks to wait too long", async () => {
+      const clock = fakeClock();
+      const rateLimited = fromStatus("/user", 429, { "retry-after": "3600" });
+      const { task, calls } = failingWith([rateLimited]);
+      expect(await TE.retrying(policy(clock))(task)()).toEqual(
+        left(rateLimited)
+      );
+      expect(calls()).toEqual(1);
+    });
+  });
+
+  describe("traverseWithConcurrency", () => {
+    it("runs at most n tasks at once, keeping the order", async () => {
+      const { task, settle, started, maxRunning } = controlled();
+      const result = TE.traverseWithConcurrency(2)(task)(["a", "b", "c"])();
+      await flush();
+      expect(started).toEqual(["a", "b"]);
+      await settle("b", right("B"));
+      expect(started).toEqual(["a", "b", "c"]);
+      await settle("c", right("C"));
+      await settle("a", right("A"));
+      expect(await result).toEqual(right(["A", "B", "C"]));
+      expect(maxRunning()).toEqual(2);
+    });
+
+    it("stops starting tasks after a failure", async () => {
+      const { task, settle, started } = controlled();
+      const result = TE.traverseWithConcurrency(1)(task)(["a", "b", "c"])();
+      await flush();
+      await settle("a", right("A"));
+      await settle("b", left("b failed"));
+      expect(await result).toEqual(left("b failed"));
+      expect(started).toEqual(["a", "b"]);
+    });
+
+    it("rejects once the running tasks settle when a task throws", async () => {
+      const { task, settle, started } = controlled();
+      const result = TE.traverseWithConcurrency(2)((name: string) =>
+        name === "b"
+          ? () => {
+              throw new Error("b threw");
+            }
+          : task(name)
+      )(["a", "b", "c"])();
+      let rejected = false;
+      const error = result.catch(e => {
+        rejected = true;
+        return e;
+      });
+      await flush();
+      expect(rejected).toBe(false);
+      await settle("a", right("A"));
+      expect(await error).toEqual(new Error("b threw"));
+      expect(started).toEqual(["a"]);
+    });
+
+    it("succeeds with no items", async () => {
+      const { task } = controlled();
+      expect(await TE.traverseWithConcurrency(2)(task)([])()).toEqual(
+        right([])
+      );
+    });
+
+    it("sequences tasks", async () => {
+      const tasks = [1, 2, 3].map(n => () =>
+        Promise.resolve(right<string, number>(n))
+      );
+      expect(await TE.sequenceWithConcurrency(2)(tasks)()).toEqual(
+        right([1, 2, 3])
+      );
+    });
+  });
+
+  describe("traverseValidation", () => {
+    it("runs every task and collects all the failures", async () => {
+      const { task, settle, started, maxRunning } = controlled();
+      const result = TE.traverseValidation(getMonoid<string>(), 2)(
+        (name: string) => () =>
+          task(name)().then(r => (r._tag === "Left" ? left([r.left]) : r))
+      )(["a", "b", "c", "d"])();
+      await flush();
+      await settle("b", left("b failed"));
+      await settle("a", left("a failed"));
+      await settle("d", right("D"));
+      await settle("c", right("C"));
+      expect(await result).toEqual(left(["a failed", "b failed"]));
+      expect(started).toEqual(["a", "b", "c", "d"]);
+      expect(maxRunning()).toEqual(2);
+    });
+
+    it("rejects when a task rejects", async () => {
+      const result = TE.traverseValidation(getMonoid<string>(), 2)(
+        (n: number) => () =>
+          n === 2
+            ? Promise.reject(new Error("2 rejected"))
+            : Promise.resolve(right<string[], number>(n))
+      )([1, 2, 3])();
+      await expect(result).rejects.toThrow("2 rejected");
+    });
+
+    it("succeeds when every task does", async () => {
+      const result = await TE.traverseValidation(getMonoid<string>(), 3)(
+        (n: number) => () => Promise.resolve(right<string[], number>(n * 2))
+      )([1, 2])();
+      expect(result).toEqual(right([2, 4]));
+    });
+  });
+
+  describe("traverseSettled", () => {
+    it("runs every task and keeps each result", async () => {
+      const { task, settle, started, maxRunning } = controlled();
+      const result = TE.traverseSettled(2, String)(task)(["a", "b", "c"])();
+      await flush();
+      await settle("a", left("a failed"));
+      await settle("c", right("C"));
+      await settle("b", right("B"));
+      expect(await result).toEqual([left("a failed"), right("B"), right("C")]);
+      expect(started).toEqual(["a", "b", "c"]);
+      expect(maxRunning()).toEqual(2);
+    });
+
+    it("turns a task that throws into a failure", async () => {
+      const result = await TE.traverseSettled(2, e => (e as Error).message)(
+        (n: number): TaskEither<string, number> =>
+          n === 2
+            ? () => {
+                throw new Error("2 threw");
+              }
+            : () => Promise.resolve(right(n))
+      )([1, 2, 3])();
+      expect(result).toEqual([right(1), left("2 threw"), right(3)]);
+    });
+  });
+
+  describe("race", () => {
+    it("returns the first task to settle", async () => {
+      const { task, settle } = controlled();
+      const result = TE.race([task("a"), task("b")])();
+      await flush();
+      await settle("b", left("b failed"));
+      await settle("a", right("A"));
+      expect(await result).toEqual(left("b failed"));
+    });
+  });
+
+  describe("firstSuccess", () => {
+    it("returns the first success", async () => {
+      const { task, settle } = controlled();
+      const result = TE.firstSuccess(semigroupString)([
+        task("a"),
+        task("b"),
+        task("c"),
+      ])();
+      await flush();
+      await settle("a", left("a failed"));
+      await settle("c", right("C"));
+      expect(await result).toEqual(right("C"));
+    });
+
+    it("combines the failures in the order of the tasks", async () => {
+      const { task, settle } = controlled();
+      const result = TE.firstSuccess(getMonoid<string>())([
+        () => task("a")().then(() => left(["a"])),
+        () => task("b")().then(() => left(["b"])),
+      ])();
+      await flush();
+      await settle("b", left(""));
+      await settle("a", left(""));
+      expect(await result).toEqual(left(["a", "b"]));
+    });
+
+    it("succeeds despite a task that rejects", async () => {
+      const { task, settle } = controlled();
+      const result = TE.firstSuccess(semigroupString)([
+        () => Promise.reject(new Error("a rejected")),
+        task("b"),
+      ])();
+      await flush();
+      await settle("b", right("B"));
+      expect(await result).toEqual(right("B"));
+    });
+
+    it("rejects when no task succeeds and one rejects", async () => {
+      const result = TE.firstSuccess(semigroupString)([
+        () => Promise.resolve(left<string, string>("a failed")),
+        () => {
+          throw new Error("b threw");
+        },
+      ])();
+      await expect(result).rejects.toThrow("b threw");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { resolve } from "path";
+import { readFileSync } from "fs";
+import {
+  addMergeRequest,
+  buildCommit,
+  buildMergeRequest,
+  buildUser,
+  createFakeGitLab,
+  fakeEnv,
+} from "../FakeGitLab";
+import GitLabAPI from "../GitLabAPI";
+import { GitLabNote } from "../GitLabDSL";
+import {
+  buildTimeline,
+  getMergeRequestTimeline,
+  parseSystemNote,
+} from "../Timeline";
+
+const metadata = { repoSlug: "group/project", pullRequestID: "1" };
+
+const fixtureNotes: GitLabNote[] = JSON.parse(
+  readFileSync(
+    resolve(__dirname, "fixtures", "getMergeRequestNotes.json")
+  ).toString()
+)[0].response;
+
+const note = (
+  id: number,
+  body: string,
+  created_at: string,
+  system: boolean = true
+): GitLabNote => ({
+  id,
+  type: null,
+  body,
+  attachment: null,
+  author: buildUser({ username: "reviewer" }),
+  created_at,
+  updated_at: created_at,
+  system,
+  noteable_id: 1,
+  noteable_type: "MergeRequest",
+  resolvable: false,
+  noteable_iid: 1,
+});
+
+describe("parseSystemNote", () => {
+  it("parses added commits with their short SHAs", () => {
+    expect(
+      parseSystemNote(
+        "added 2 commits\n\n<ul><li>1a2b3c4d - Fix</li><li>5e6f7a8b - Test</li></ul>\n\n[Compare with previous version](/diffs)"
+      )
+    ).toEqual({
+      _tag: "CommitsAdded",
+      count: 2,
+      shas: ["1a2b3c4d", "5e6f7a8b"],
+    });
+    expect(parseSystemNote("added 1 commit\n\n* 1a2b3c4d - Fix")).toEqual({
+      _tag: "CommitsAdded",
+      count: 1,
+      shas: ["1a2b3c4d"],
+    });
+  });
+
+  it("parses added and removed labels", () => {
+    expect(parseSystemNote('added ~bug ~"needs review" labels')).toEqual({
+      _tag: "LabelsChanged",
+      added: ["bug", "needs review"],
+      removed: [],
+    });
+    expect(parseSystemNote("added ~bug and removed ~feature label")).toEqual({
+      _tag: "LabelsChanged",
+      added: ["bug"],
+      removed: ["feature"],
+    });
+    expect(parseSystemNote("removed ~backend label")).toEqual({
+      _tag: "LabelsChanged",
+      added: [],
+      removed: ["backend"],
+    });
+  });
+
+  it("parses assignees", () => {
+    expect(parseSystemNote("assigned to @alice and @bob")).toEqual({
+      _tag: "AssigneesChanged",
+      assigned: ["alice", "bob"],
+      unassigned: [],
+    });
+    expect(parseSystemNote("assigned to @bob and unassigned @alice")).toEqual({
+      _tag: "AssigneesChanged",
+      assigned: ["bob"],
+      unassigned: ["alice"],
+    });
+  });
+
+  it("rebuilds both versions of a changed title", () => {
+    expect(
+      parseSystemNote(
+        "changed title from **{-WIP: -}Add timeline** to **Add timeline{+ parser+}**"
+      )
+    ).toEqual({
+      _tag: "TitleChanged",
+      from: "WIP: Add timeline",
+      to: "Add timeline parser",
+    });
+  });
+
+  it("parses draft changes of every GitLab version", () => {
+    expect(parseSystemNote("marked as a **Work In Progress**")).toEqual({
+      _tag: "DraftChanged",
+      draft: true,
+    });
+    expect(parseSystemNote("marked this merge request as **draft**")).toEqual({
+      _tag: "DraftChanged",
+      draft: true,
+    });
+    expect(parseSystemNote("marked as draft")).toEqual({
+      _tag: "DraftChanged",
+      draft: true,
+    });
+    expect(parseSystemNote("unmarked as a **Work In Progress**")).toEqual({
+      _tag: "DraftChanged",
+      draft: false,
+    });
+    expect(parseSystemNote("marked this merge request as **ready**")).toEqual({
+      _tag: "DraftChanged",
+      draft: false,
+    });
+  });
+
+  it("parses notes without details", () => {
+    expect(parseSystemNote("changed the description")).toEqual({
+      _tag: "DescriptionChanged",
+    });
+    expect(parseSystemNote("approved this merge request")).toEqual({
+      _tag: "Approved",
+    });
+    expect(parseSystemNote("unapproved this merge request")).toEqual({
+      _tag: "Unapproved",
+    });
+    expect(parseSystemNote("resolved all threads")).toEqual({
+      _tag: "ThreadsResolved",
+    });
+    expect(parseSystemNote("merged")).toEqual({ _tag: "Merged" });
+    expect(parseSystemNote("closed")).toEqual({ _tag: "Closed" });
+    expect(parseSystemNote("reopened")).toEqual({ _tag: "Reopened" });
+  });
+
+  it("parses milestones and mentions", () => {
+    expect(parseSystemNote('changed milestone to %"11.11"')).toEqual({
+      _tag: "MilestoneChanged",
+      milestone: "11.11",
+    });
+    expect(parseSystemNote("removed milestone")).toEqual({
+      _tag: "MilestoneChanged",
+      milestone: null,
+    });
+    expect(parseSystemNote("mentioned in issue #57766")).toEqual({
+      _tag: "Mentioned",
+      in: "issue #57766",
+    });
+  });
+
+  it("keeps unknown notes as unrecognized", () => {
+    const body = "requested review from @alice";
+    expect(parseSystemNote(body)).toEqual({ _tag: "Unrecognized", body });
+    expect(parseSystemNote("added some labels")).toEqual({
+      _tag: "Unrecognized",
+      body: "added some labels",
+    });
+  });
+});
+
+describe("buildTimeline", () => {
+  it("parses every system note of the fixture", () => {
+    const timeline = buildTimeline(fixtureNotes, []);
+    expect(timeline.map(entry => entry.event._tag)).toEqual([
+      "MilestoneChanged",
+      "Mentioned",
+      "Mentioned",
+      "Comment",
+      "Comment",
+      "AssigneesChanged",
+      "ThreadsResolved",
+      "Approved",
+      "Comment",
+      "AssigneesChanged",
+      "Approved",
+      "Comment",
+      "Mentioned",
+      "Merged",
+      "Mentioned",
+    ]);
+  });
+
+  it("merges commits and notes oldest first", () => {
+    const commit = buildCommit({
+      committer_name: "Alice",
+      committed_date: "2019-10-01T10:00:00.000Z",
+    });
+    const comment = note(2, "Looks good", "2019-10-01T11:00:00.000Z", false);
+    const timeline = buildTimeline(
+      [comment, note(1, "added 1 commit", "2019-10-01T10:00:00.000Z")],
+      [commit]
+    );
+    expect(timeline).toEqual([
+      {
+        at: "2019-10-01T10:00:00.000Z",
+        actor: "Alice",
+        event: { _tag: "Commit", commit },
+      },
+      {
+        at: "2019-10-01T10:00:00.000Z",
+        actor: "reviewer",
+        event: { _tag: "CommitsAdded", count: 1, shas: [] },
+      },
+      {
+        at: "2019-10-01T11:00:00.000Z",
+        actor: "reviewer",
+        event: { _tag: "Comment", note: comment },
+      },
+    ]);
+  });
+});
+
+describe("getMergeRequestTimeline", () => {
+  it("reads the notes and commits of the merge request", async () => {
+    const fake = createFakeGitLab();
+    addMergeRequest(fake, metadata, {
+      mr: buildMergeRequest(),
+      commits: [buildCommit({ committed_date: "2019-10-01T10:00:00.000Z" })],
+      notes: [note(1, "approved this merge request", "2019-10-02T00:00:00Z")],
+    });
+    const env = fakeEnv(fake, metadata);
+    const api = new GitLabAPI(metadata, env.credentials, env);
+    const timeline = await api.getMergeRequestTimeline();
+    expect(timeline.map(entry => entry.event._tag)).toEqual([
+      "Commit",
+      "Approved",
+    ]);
+    const result = await getMergeRequestTimeline(env)();
+    expect(result).toEqual({ _tag: "Right", right: timeline });
+  });
+});
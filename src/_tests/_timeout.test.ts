@@ -0,0 +1,188 @@
+import nock from "nock";
+import { left, right } from "fp-ts/lib/Either";
+import { buildUser } from "../FakeGitLab";
+import { aborted, isRetryable, timeout } from "../GitLabAPIError";
+import { createEnv } from "../GitLabEnv";
+import { defaultRetryPolicy, getUser, GitLabOp } from "../GitLabClient";
+import { createRequester } from "../Requester";
+import TE from "../TaskEitherUtils";
+import { bounded, withDeadline, withSignal, withTimeout } from "../Timeout";
+import { manualClock, stubEnv } from "./_fixtures";
+
+nock.disableNetConnect();
+
+const host = "https://gitlab.com";
+const user = buildUser();
+
+/** Environment whose SDK never answers, and can't abort its requests. */
+const hangingEnv = (clock = manualClock()) => {
+  const current = jest.fn(() => new Promise(() => {}));
+  const env = stubEnv(
+    { Users: { current } },
+    { retry: { ...defaultRetryPolicy, clock, jitter: 0 } }
+  );
+  return { env, current, clock };
+};
+
+describe("Timeout", () => {
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("fails an operation that takes too long", async () => {
+    const { env, clock } = hangingEnv();
+    const result = withTimeout(1000, "getUser")(getUser)(env)();
+    clock.advance(1000);
+    expect(await result).toEqual(left(timeout("getUser", 1000)));
+  });
+
+  it("keeps the result of an operation on time", async () => {
+    const { env } = hangingEnv();
+    const fast = stubEnv(
+      { Users: { current: () => Promise.resolve(user) } },
+      { retry: env.retry }
+    );
+    const result = await withTimeout(1000, "getUser")(getUser)(fast)();
+    expect(result).toEqual(right(user));
+  });
+
+  it("fails requests after the deadline without sending them", async () => {
+    const { env, current, clock } = hangingEnv();
+    clock.time = 5000;
+    const result = await withDeadline(4000)(getUser)(env)();
+    expect(result).toEqual(left(timeout("getUser", 0)));
+    expect(current).not.toHaveBeenCalled();
+  });
+
+  it("keeps the earliest deadline", async () => {
+    const { env, clock } = hangingEnv();
+    const result = withDeadline(2000)(withDeadline(500)(getUser))(env)();
+    clock.advance(500);
+    expect(await result).toEqual(left(timeout("getUser", 500)));
+  });
+
+  it("fails with Aborted when the signal is aborted", async () => {
+    const { env } = hangingEnv();
+    const controller = new AbortController();
+    const result = withSignal(controller.signal)(getUser)(env)();
+    controller.abort();
+    expect(await result).toEqual(left({ _tag: "Aborted", endpoint: "/user" }));
+  });
+
+  it("settles when the operation throws", async () => {
+    const { env } = hangingEnv();
+    const broken: GitLabOp<never> = () => () =>
+      Promise.reject(new Error("boom"));
+    await expect(withTimeout(1000, "broken")(broken)(env)()).rejects.toThrow(
+      "boom"
+    );
+  });
+
+  it("doesn't retry past the deadline", async () => {
+    const { env, current, clock } = hangingEnv();
+    current.mockImplementation(() =>
+      Promise.reject({ response: { status: 502, headers: new Map() } })
+    );
+    const result = await withDeadline(400)(getUser)(env)();
+    expect(result).toEqual(left(expect.objectContaining({ status: 502 })));
+    expect(current).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(0);
+  });
+
+  it("aborts the pages of a list the SDK is fetching", async () => {
+    const notes = "/api/v4/projects/1/merge_requests/2/notes";
+    const controller = new AbortController();
+    nock(host)
+      .get(notes)
+      .reply(200, [{ id: 1 }], {
+        "Content-Type": "application/json",
+        "X-Next-Page": "2",
+        Link: `<${host}${notes}?page=2>; rel="next"`,
+      })
+      .get(notes)
+      .query({ page: "2" })
+      .delay(10000)
+      .reply(200, () => {
+        controller.abort();
+        return [{ id: 2 }];
+      });
+    const env = {
+      ...createEnv(
+        { repoSlug: "group/project", pullRequestID: "1" },
+        { host, token: "token" }
+      ),
+      signal: controller.signal,
+    };
+    let listing: Promise<unknown> = Promise.resolve();
+    const result = await bounded(env, "listNotes", notes)(({ api }) =>
+      TE.fromRequest(notes)(() => (listing = api.MergeRequestNotes.all(1, 2)))
+    )();
+    expect(result).toEqual(left(aborted(notes)));
+    await expect(listing).rejects.toHaveProperty("name", "AbortError");
+  });
+
+  it("doesn't retry timeouts", () => {
+    expect(isRetryable(timeout("getUser", 1000))).toBe(false);
+  });
+});
+
+describe("createRequester", () => {
+  const service = {
+    url: `${host}/api/v4/`,
+    headers: { "private-token": "token" },
+    requestTimeout: 300000,
+  };
+
+  it("sends requests like the SDK", async () => {
+    nock(host)
+      .get("/api/v4/projects/1/merge_requests/2/notes")
+      .query({ page: "1", per_page: "100" })
+      .reply(200, [{ id: 3 }], { "X-Next-Page": "" });
+    const response = await createRequester().get(
+      service,
+      "projects/1/merge_requests/2/notes",
+      { query: { page: 1, perPage: 100 } }
+    );
+    expect(response).toEqual({
+      body: [{ id: 3 }],
+      headers: expect.objectContaining({ "x-next-page": "" }),
+      status: 200,
+    });
+  });
+
+  it("streams like the SDK", async () => {
+    nock(host)
+      .get("/api/v4/projects/1/jobs/2/artifacts/report.txt")
+      .reply(200, "All good", { "Content-Type": "text/plain" });
+    const { api } = createEnv(
+      { repoSlug: "group/project", pullRequestID: "1" },
+      { host, token: "token" }
+    );
+    const response = await api.Jobs.downloadSingleArtifactFile(
+      1,
+      2,
+      "report.txt",
+      { stream: true }
+    );
+    expect(response).toEqual({
+      body: "All good",
+      headers: expect.objectContaining({ "content-type": "text/plain" }),
+      status: 200,
+    });
+  });
+
+  it("aborts the HTTP request with the signal", async () => {
+    nock(host)
+      .get("/api/v4/user")
+      .delay(10000)
+      .reply(200, user);
+    const controller = new AbortController();
+    const response = createRequester().get(
+      { ...service, signal: controller.signal },
+      "user",
+      {}
+    );
+    controller.abort();
+    await expect(response).rejects.toHaveProperty("name", "AbortError");
+  });
+});
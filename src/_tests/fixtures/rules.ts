@@ -0,0 +1,19 @@
+// Rules module used by the CLI tests
+import { right as rightTE } from "fp-ts/lib/TaskEither";
+import { fail, message, Rule } from "../../Rules";
+
+export const rules: Rule[] = [
+  {
+    name: "title",
+    check: dsl => rightTE([message(`Reviewing ${dsl.mr.title}`)]),
+  },
+  {
+    name: "dangerfile",
+    check: dsl =>
+      rightTE(
+        dsl.changes
+          .filter(change => change.new_path.endsWith("Dangerfile"))
+          .map(change => fail("Check the roulette", change.new_path, 3))
+      ),
+  },
+];
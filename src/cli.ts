@@ -0,0 +1,307 @@
+#!/usr/bin/env node
+// `fp-gitlab review`: run a rules module against a merge request.
+import { resolve } from "path";
+import {
+  Either,
+  fold as foldEither,
+  left,
+  mapLeft,
+  right,
+} from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/pipeable";
+import { rightTask, TaskEither } from "fp-ts/lib/TaskEither";
+import GitLabAPI, {
+  Env,
+  getConfigFromEnv,
+  getRepoMetaDataFromEnv,
+} from "./GitLabAPI";
+import { message as apiErrorMessage } from "./GitLabAPIError";
+import { parseChanges } from "./Diff";
+import { GitLabDSL, GitLabJSONDSL } from "./GitLabDSL";
+import { toGitLabDSL } from "./GitLabDSLBuilder";
+import {
+  loadRecordings,
+  recordedFileContents,
+  recordedJSONDSL,
+} from "./Fixtures";
+import { formatInline, planReport, postReport } from "./Report";
+import { Report, ReportEntry, Rule, runRules } from "./Rules";
+
+export interface ReviewOptions {
+  project?: string;
+  mr?: string;
+  /**
+   * Module exporting the rules, relative to the working directory. Loaded
+   * with `require`: a TypeScript module needs ts-node, or to be compiled.
+   */
+  rules: string;
+  dryRun: boolean;
+  json: boolean;
+  /** Directory of responses recorded by nock */
+  fromFixtures?: string;
+}
+
+export const usage = `Usage: fp-gitlab review [options]
+
+Run the rules exported by a module against a merge request and post the
+results as a summary note and inline discussions.
+
+Options:
+  --project <path>       Project path, defaults to CI_PROJECT_PATH
+  --mr <iid>             Merge request IID, defaults to CI_MERGE_REQUEST_IID
+  --rules <module>       Module exporting \`rules: Rule[]\`, defaults to ./rules.
+                         Rules written in TypeScript must be compiled to
+                         JavaScript, unless the CLI runs with ts-node
+  --dry-run              Print the comments instead of posting them
+  --json                 Print the report as JSON
+  --from-fixtures <dir>  Read recorded responses instead of calling GitLab,
+                         implies --dry-run
+
+Credentials are read from DANGER_GITLAB_HOST and DANGER_GITLAB_API_TOKEN, or
+CI_SERVER_URL and CI_JOB_TOKEN.`;
+
+/** The options set by a flag followed by a value */
+type ValueOption = Exclude<keyof ReviewOptions, "dryRun" | "json">;
+
+const valueFlags: { [flag: string]: ValueOption } = {
+  "--project": "project",
+  "--mr": "mr",
+  "--rules": "rules",
+  "--from-fixtures": "fromFixtures",
+};
+
+/**
+ * Options of the `review` command, or the reason they are invalid.
+ */
+export const parseArgs = (args: string[]): Either<string, ReviewOptions> => {
+  const [command, ...rest] = args;
+  if (command !== "review") {
+    return left(command ? `Unknown command: ${command}` : "Missing command");
+  }
+  const options: ReviewOptions = {
+    rules: "./rules",
+    dryRun: false,
+    json: false,
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const [flag, inlineValue] = rest[i].split(/=(.*)/);
+    if (flag === "--dry-run") {
+      options.dryRun = true;
+    } else if (flag === "--json") {
+      options.json = true;
+    } else if (valueFlags[flag]) {
+      const value = inlineValue !== undefined ? inlineValue : rest[++i];
+      if (value === undefined || value === "") {
+        return left(`Missing value for ${flag}`);
+      }
+      options[valueFlags[flag]] = value;
+    } else {
+      return left(`Unknown option: ${rest[i]}`);
+    }
+  }
+  return right(options);
+};
+
+/** A field of an object, or `undefined` */
+const field = (u: unknown, key: string): unknown =>
+  u !== null && typeof u === "object"
+    ? (u as { [key: string]: unknown })[key]
+    : undefined;
+
+const isRule = (u: unknown): u is Rule =>
+  typeof field(u, "name") === "string" &&
+  typeof field(u, "check") === "function";
+
+/**
+ * The rules exported as `rules` or as the default export of a module.
+ */
+export const loadRules = (path: string): Either<string, Rule[]> => {
+  let exported: unknown;
+  try {
+    exported = require(path);
+  } catch (e) {
+    return left(`Cannot load rules from ${path}: ${e.message}`);
+  }
+  const rules =
+    field(exported, "rules") || field(exported, "default") || exported;
+  return Array.isArray(rules) && rules.every(isRule)
+    ? right(rules)
+    : left(`${path} must export \`rules\`, an array of { name, check }`);
+};
+
+/** Everything the program talks to, replaced in tests */
+export interface IO {
+  env: Env;
+  cwd: string;
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+}
+
+interface Review {
+  dsl: GitLabDSL;
+  /** Absent when running offline */
+  api?: GitLabAPI;
+}
+
+/** Flags take precedence over the CI variables */
+const withFlags = (options: ReviewOptions, env: Env): Env => ({
+  ...env,
+  CI_PROJECT_PATH: options.project || env["CI_PROJECT_PATH"],
+  CI_MERGE_REQUEST_IID: options.mr || env["CI_MERGE_REQUEST_IID"],
+});
+
+const loadOffline = (dir: string, env: Env): Either<string, Review> => {
+  const recordings = loadRecordings(dir);
+  return pipe(
+    getRepoMetaDataFromEnv(env),
+    foldEither(
+      e => left(e.message),
+      metadata =>
+        pipe(
+          recordedJSONDSL(recordings, metadata),
+          mapLeft(e => e.message),
+          foldEither<string, GitLabJSONDSL, Either<string, Review>>(
+            left,
+            json =>
+              right({
+                dsl: toGitLabDSL(
+                  json,
+                  recordedFileContents(recordings, metadata)
+                ),
+              })
+          )
+        )
+    )
+  );
+};
+
+const loadOnline = (env: Env): TaskEither<string, Review> =>
+  pipe(
+    getConfigFromEnv(env),
+    foldEither(
+      e => () => Promise.resolve(left(e.message)),
+      ({ credentials, metadata }) => {
+        const api = new GitLabAPI(metadata, credentials);
+        return () =>
+          api
+            .getGitLabDSLFp()()
+            .then(
+              foldEither(
+                e => left(apiErrorMessage(e)),
+                dsl => right({ dsl, api })
+              )
+            );
+      }
+    )
+  );
+
+const labels: { [level: string]: string } = {
+  fail: "FAIL",
+  warn: "WARN",
+  message: "INFO",
+  markdown: "NOTE",
+};
+
+export const formatEntry = (entry: ReportEntry): string => {
+  const location =
+    entry.file === undefined
+      ? ""
+      : ` (${entry.file}${entry.line === undefined ? "" : `:${entry.line}`})`;
+  return `${labels[entry.level]} ${entry.message}${location} [${entry.rule}]`;
+};
+
+const summaryLine = (report: Report): string => {
+  const count = (level: string) =>
+    report.entries.filter(entry => entry.level === level).length;
+  return `${report.passed ? "Passed" : "Failed"}: ${count(
+    "fail"
+  )} failures, ${count("warn")} warnings, ${count("message")} messages`;
+};
+
+const publish = (
+  review: Review,
+  report: Report,
+  options: ReviewOptions,
+  io: IO
+): TaskEither<string, unknown> => {
+  const { dsl, api } = review;
+  if (options.dryRun || !api) {
+    const plan = planReport(report, dsl.mr, parseChanges(dsl.changes));
+    if (!options.json) {
+      plan.inline.forEach(({ entry, position }) =>
+        io.stdout(
+          `Would comment on ${position.new_path}:${position.new_line ||
+            position.old_line}: ${formatInline(entry)}`
+        )
+      );
+      io.stdout(
+        plan.summary === ""
+          ? "Would delete the summary note"
+          : `Would post the summary note:\n${plan.summary}`
+      );
+    }
+    return rightTask(() => Promise.resolve(plan));
+  }
+  return () =>
+    api
+      .run(postReport(report))()
+      .then(mapLeft(apiErrorMessage));
+};
+
+/**
+ * Run the CLI and resolve with the exit code: 0 if the rules passed, 1 if
+ * they failed, 2 if the review could not run.
+ */
+export const main = (args: string[], io: IO): Promise<number> => {
+  const error = (message: string) => {
+    io.stderr(message);
+    return 2;
+  };
+  const parsed = parseArgs(args);
+  if (parsed._tag === "Left") {
+    return Promise.resolve(error(`${parsed.left}\n\n${usage}`));
+  }
+  const options = parsed.right;
+  const rules = loadRules(resolve(io.cwd, options.rules));
+  if (rules._tag === "Left") {
+    return Promise.resolve(error(rules.left));
+  }
+  const env = withFlags(options, io.env);
+  const review: TaskEither<string, Review> = options.fromFixtures
+    ? () =>
+        Promise.resolve(
+          loadOffline(resolve(io.cwd, options.fromFixtures as string), env)
+        )
+    : loadOnline(env);
+
+  return review().then(
+    foldEither(
+      e => Promise.resolve(error(e)),
+      loaded =>
+        runRules(rules.right)(loaded.dsl)().then(report =>
+          publish(loaded, report, options, io)().then(
+            foldEither(error, published => {
+              if (options.json) {
+                io.stdout(JSON.stringify({ ...report, published }, null, 2));
+              } else {
+                report.entries.map(formatEntry).forEach(io.stdout);
+                io.stdout(summaryLine(report));
+              }
+              return report.passed ? 0 : 1;
+            })
+          )
+        )
+    )
+  );
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2), {
+    env: process.env,
+    cwd: process.cwd(),
+    stdout: line => console.log(line),
+    stderr: line => console.error(line),
+  }).then(code => {
+    process.exitCode = code;
+  });
+}